@@ -1,49 +1,126 @@
 
-import React, { useState, useCallback, useMemo } from 'react';
-import Papa from 'papaparse';
-import { FileUp, Search, Download, FileSpreadsheet, AlertCircle, Info, Filter, Trash2 } from 'lucide-react';
-import { FileData, LoanRow, AuditResult } from './types.ts';
-import { exportToExcel } from './services/excelService.ts';
+import React, { useState, useCallback, useMemo, useDeferredValue, useRef } from 'react';
+import { FileUp, Search, Download, FileSpreadsheet, FileText, AlertCircle, Info, Filter, Layers, ArrowLeft, CalendarDays, GitBranch, ListChecks, Upload, FolderOpen, ArrowLeftRight, Loader2 } from 'lucide-react';
+import { AuditMode, AuditResult, AuditSession, ChangeRecord, ColumnFilterSettings, ColumnMapping, ComparisonBaseline, ComparisonSettings, DuplicateSettings, FieldRule, FileData, ParseSettings, PendingWorkbook, ReconcileSource, ReviewEntry, ReviewLog, SearchMatchMode, SearchOptions } from './types.ts';
+import { exportToExcel, exportPortfolioToExcel, exportLifecycleToExcel, exportBatchToExcel, exportReconciliationToExcel } from './services/excelService.ts';
+import { buildSummaryColumns, describeBaseline, normalizeId, resolveBaseline, COMPOSITE_KEY_COLUMN, DEFAULT_BASELINE } from './services/auditService.ts';
+import { LoanAudit } from './services/auditEngine.ts';
+import { isWorkbookFile, readWorkbook } from './services/workbookService.ts';
+import { parseCsvFile } from './services/csvService.ts';
+import { inferAsOfDate, insertByAsOfDate, sortByAsOfDate, withAsOfDate, findOutOfOrder } from './services/snapshotService.ts';
+import { EMPTY_MAPPING, COMPOSITE_KEY_SEPARATOR } from './services/mappingService.ts';
+import { EMPTY_COMPARISON } from './services/normalizeService.ts';
+import { loadRules, saveRules } from './services/rulesService.ts';
+import { parseLoanList } from './services/batchService.ts';
+import { describeDuplicateSettings, DEFAULT_DUPLICATES } from './services/duplicateService.ts';
+import {
+  isDirectLookup, ALL_FIELDS, DEFAULT_SEARCH, LOAN_NUMBER_FIELD, MATCH_MODE_LABELS, MAX_SEARCH_MATCHES,
+} from './services/searchService.ts';
+import { filterColumnsToGroups, EMPTY_COLUMN_FILTERS } from './services/columnFilterService.ts';
+import { hasSchemaDrift, withRenameAlias } from './services/schemaService.ts';
+import { countByStatus } from './services/reconcileService.ts';
+import { reviewProgress, withoutReview, withReview, EMPTY_REVIEWS, ReviewTarget } from './services/reviewService.ts';
+import { buildChangeLog, exportChangeLog, ChangeLogFormat } from './services/changeLogService.ts';
+import FileCard from './components/FileCard.tsx';
+import ColumnMappingPanel from './components/ColumnMappingPanel.tsx';
+import ComparisonPanel from './components/ComparisonPanel.tsx';
+import ColumnFiltersPanel from './components/ColumnFiltersPanel.tsx';
+import LifecycleView from './components/LifecycleView.tsx';
+import RulesPanel from './components/RulesPanel.tsx';
+import BatchView from './components/BatchView.tsx';
+import ReconcileView from './components/ReconcileView.tsx';
+import SessionManager from './components/SessionManager.tsx';
+import DuplicatesPanel from './components/DuplicatesPanel.tsx';
+import SchemaPanel from './components/SchemaPanel.tsx';
+import LoanPicker from './components/LoanPicker.tsx';
+import BaselinePicker from './components/BaselinePicker.tsx';
+import PortfolioTable from './components/PortfolioTable.tsx';
+import SheetPicker from './components/SheetPicker.tsx';
+import ParseProgress from './components/ParseProgress.tsx';
+import { useEngineQuery, useLoanIndex } from './components/useLoanIndex.ts';
+import TimelineTable from './components/TimelineTable.tsx';
+import ReviewDialog from './components/ReviewDialog.tsx';
+
+const EMPTY_LOAN_AUDIT: LoanAudit = { results: [], timeline: [], conflicts: [] };
 
 const App: React.FC = () => {
   const [files, setFiles] = useState<FileData[]>([]);
   const [searchQuery, setSearchQuery] = useState('275032');
+  const [searchOptions, setSearchOptions] = useState<SearchOptions>(DEFAULT_SEARCH);
+  const [pickedLoan, setPickedLoan] = useState<string | null>(null);
+  const [showSuggestions, setShowSuggestions] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [parseProgress, setParseProgress] = useState<Record<string, number>>({});
   const [isDragging, setIsDragging] = useState(false);
+  const [auditMode, setAuditMode] = useState<AuditMode>('single');
+  const [returnMode, setReturnMode] = useState<AuditMode | null>(null);
+  const [pendingWorkbooks, setPendingWorkbooks] = useState<PendingWorkbook[]>([]);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>(EMPTY_MAPPING);
+  const [comparisonSettings, setComparisonSettings] = useState<ComparisonSettings>(EMPTY_COMPARISON);
+  const [duplicateSettings, setDuplicateSettings] = useState<DuplicateSettings>(DEFAULT_DUPLICATES);
+  const [baselineSettings, setBaselineSettings] = useState<ComparisonBaseline>(DEFAULT_BASELINE);
+  const [columnFilters, setColumnFilters] = useState<ColumnFilterSettings>(EMPTY_COLUMN_FILTERS);
+  const [batchText, setBatchText] = useState('');
+  const [showSessions, setShowSessions] = useState(false);
+  const [activeSession, setActiveSession] = useState<{ id: string; name: string } | null>(null);
+  const [fieldRules, setFieldRules] = useState<FieldRule[]>(loadRules);
+  const [dragFileIndex, setDragFileIndex] = useState<number | null>(null);
+  const [dropFileIndex, setDropFileIndex] = useState<number | null>(null);
+  const [parseFailures, setParseFailures] = useState<string[]>([]);
+  const [reviews, setReviews] = useState<ReviewLog>(EMPTY_REVIEWS);
+  const [reviewing, setReviewing] = useState<{ item: AuditResult; field: string } | null>(null);
+  // Uploaded CSVs by upload ID so a delimiter or encoding override can re-read them; files restored from a session have none
+  const uploadedCsvs = useRef(new Map<string, File>());
 
   const processFiles = useCallback((fileList: FileList | File[] | null) => {
     if (!fileList || fileList.length === 0) return;
 
     setLoading(true);
     const filesArray = Array.from(fileList);
-    
+    setParseProgress(Object.fromEntries(filesArray.map(file => [file.name, 0])));
+    const reportProgress = (name: string, fraction: number) => {
+      setParseProgress(prev => ({ ...prev, [name]: fraction }));
+    };
+
+    const failures: string[] = [];
     const filePromises = filesArray.map((file: File) => {
-      return new Promise<FileData>((resolve) => {
-        Papa.parse(file, {
-          header: true,
-          skipEmptyLines: true,
-          complete: (results) => {
-            resolve({
-              name: file.name,
-              data: results.data.map((row: any) => {
-                const newRow: any = { Found_In_File: file.name };
-                Object.keys(row).forEach(k => {
-                  newRow[k] = row[k];
-                });
-                return newRow;
-              }),
-            });
-          },
-        });
+      const uploadId = crypto.randomUUID();
+      if (!isWorkbookFile(file.name)) uploadedCsvs.current.set(uploadId, file);
+      const parsed = isWorkbookFile(file.name)
+        ? readWorkbook(file)
+        : parseCsvFile(file, fraction => reportProgress(file.name, fraction)).then(f => [{ ...f, uploadId }]);
+      return parsed.then(entries => {
+        reportProgress(file.name, 1);
+        return entries;
+      }).catch((err): FileData[] => {
+        // One unreadable file should not stop the others from loading
+        console.error(`Error parsing ${file.name}:`, err);
+        failures.push(err instanceof Error ? err.message : `Could not read ${file.name}`);
+        return [];
       });
     });
 
     Promise.all(filePromises).then((results) => {
-      setFiles(prev => [...prev, ...results]);
+      const ready: FileData[] = [];
+      const pending: PendingWorkbook[] = [];
+      results.forEach((parsed, i) => {
+        const entries = parsed.map(inferAsOfDate);
+        // Workbooks with several populated tabs wait for the user to pick which sheets to audit
+        if (isWorkbookFile(filesArray[i].name) && entries.length > 1) {
+          pending.push({ fileName: filesArray[i].name, sheets: entries });
+        } else {
+          ready.push(...entries);
+        }
+      });
+      setFiles(prev => insertByAsOfDate(prev, ready));
+      setPendingWorkbooks(prev => [...prev, ...pending]);
+      setParseFailures(failures);
       setLoading(false);
+      setParseProgress({});
     }).catch(err => {
       console.error("Error processing files:", err);
       setLoading(false);
+      setParseProgress({});
     });
   }, []);
 
@@ -74,90 +151,324 @@ const App: React.FC = () => {
     }
   };
 
-  const masterData = useMemo(() => {
-    return files.flatMap(f => f.data);
-  }, [files]);
-
-  const idKey = useMemo(() => {
-    if (masterData.length === 0) return null;
-    const firstRow = masterData[0];
-    return Object.keys(firstRow).find(k => 
-      k.toLowerCase().includes('loan #') || k.toLowerCase().includes('loan#') || k.toLowerCase().includes('loan number')
-    ) || null;
-  }, [masterData]);
-
-  const auditResults = useMemo(() => {
-    if (!searchQuery || !idKey || masterData.length === 0) return [];
-
-    const filtered = masterData.filter(row => 
-      String(row[idKey]).trim().toLowerCase() === searchQuery.trim().toLowerCase()
-    );
-
-    const results: AuditResult[] = [];
-    filtered.forEach((row, index) => {
-      const changes = new Set<string>();
-      if (index > 0) {
-        const prevRow = filtered[index - 1];
-        Object.keys(row).forEach(key => {
-          if (key === 'Found_In_File') return;
-          if (String(row[key]) !== String(prevRow[key])) {
-            changes.add(key);
-          }
-        });
-      }
-      results.push({ row, changes });
-    });
+  // Mapping, duplicate handling, profiling and every audit scan the rows, so the rows, the loan index and the engine
+  // live in a web worker. Duplicate rows within a file are collapsed before any comparison so they never read as
+  // timeline changes
+  const loanIndex = useLoanIndex(
+    files, columnMapping, duplicateSettings, comparisonSettings, fieldRules, baselineSettings, columnFilters, reviews,
+  );
+  const { overview, indexing, fileStats, query } = loanIndex;
+  const idKey = overview.metadata.idKey;
+  const subKey = overview.subKey;
+  const mappedColumns = overview.columns;
+  const schemaReport = overview.schema;
+  const fileNames = useMemo(() => overview.metadata.files.map(f => f.name), [overview]);
 
-    return results;
-  }, [masterData, searchQuery, idKey]);
+  const baseline = resolveBaseline(baselineSettings, files.map(f => f.name));
 
-  const summaryColumns = useMemo(() => {
-    if (auditResults.length === 0 || !idKey) return [];
-    
-    const changedCols = new Set<string>();
-    auditResults.forEach(res => {
-      res.changes.forEach(c => changedCols.add(c));
-    });
+  // Scans are deferred so typing stays responsive on large portfolios
+  const deferredQuery = useDeferredValue(searchQuery);
+  const directLookup = isDirectLookup(searchOptions);
 
-    return ['Found_In_File', idKey, ...Array.from(changedCols).sort()];
-  }, [auditResults, idKey]);
+  const searchMatches = useEngineQuery(
+    loanIndex,
+    auditMode === 'single' && !directLookup && idKey ? { kind: 'search', query: deferredQuery, options: searchOptions } : null,
+    [],
+  );
 
-  // Priority Column Order: 1. File, 2. Loan ID, 3. Changed Columns, 4. Everything else
-  const exportColumns = useMemo(() => {
-    if (auditResults.length === 0 || !idKey) return [];
-    
-    const allUniqueKeys = new Set<string>();
-    auditResults.forEach(res => {
-      Object.keys(res.row).forEach(k => allUniqueKeys.add(k));
-    });
+  // Exact loan-number searches open the timeline directly; other searches need a single or picked match
+  const timelineLoanId = directLookup
+    ? searchQuery
+    : pickedLoan ?? (searchMatches.length === 1 ? searchMatches[0].loanId : '');
+  const showPicker = auditMode === 'single' && !directLookup && !pickedLoan && searchMatches.length > 1;
 
-    const changedColsSet = new Set<string>();
-    auditResults.forEach(res => {
-      res.changes.forEach(c => changedColsSet.add(c));
-    });
-    const sortedChangedCols = Array.from(changedColsSet).sort();
+  const suggested = useEngineQuery(
+    loanIndex,
+    auditMode === 'single' && idKey && searchOptions.field === LOAN_NUMBER_FIELD ? { kind: 'suggest', prefix: deferredQuery } : null,
+    [],
+  );
+  const suggestions = suggested.length === 1 && normalizeId(suggested[0]) === normalizeId(deferredQuery) ? [] : suggested;
 
-    const priorityCols = ['Found_In_File', idKey, ...sortedChangedCols];
-    const prioritySet = new Set(priorityCols);
+  const updateSearch = (query: string, options: SearchOptions = searchOptions) => {
+    setSearchQuery(query);
+    setSearchOptions(options);
+    setPickedLoan(null);
+  };
+
+  const loanAudit = useEngineQuery(
+    loanIndex,
+    timelineLoanId && idKey ? { kind: 'loan', loanId: timelineLoanId } : null,
+    EMPTY_LOAN_AUDIT,
+  );
+  const { results: auditResults, timeline: timelineResults, conflicts: loanConflicts } = loanAudit;
 
-    const remainingCols = Array.from(allUniqueKeys)
-      .filter(k => !prioritySet.has(k))
-      .sort();
+  const hasDuplicates = files.some(f => (fileStats(f)?.duplicates ?? 0) > 0);
 
-    return [...priorityCols, ...remainingCols];
-  }, [auditResults, idKey]);
+  const intraFileConflicts = useEngineQuery(loanIndex, hasDuplicates ? { kind: 'conflicts' } : null, []);
+
+  const changedFieldCount = useMemo(() => {
+    return new Set(auditResults.flatMap(res => Array.from(res.changes))).size;
+  }, [auditResults]);
+
+  const timelineReviewProgress = useMemo(() => reviewProgress(auditResults), [auditResults]);
+
+  const saveReview = (entry: ReviewEntry) => {
+    setReviews(prev => withReview(prev, entry));
+    setReviewing(null);
+  };
+
+  const clearReview = (target: ReviewTarget) => {
+    setReviews(prev => withoutReview(prev, target));
+    setReviewing(null);
+  };
 
+  const exceptionCount = useMemo(() => {
+    return auditResults.reduce((count, res) => count + (res.hits?.length ?? 0), 0);
+  }, [auditResults]);
+
+  const portfolioSummaries = useEngineQuery(loanIndex, auditMode === 'portfolio' && idKey ? { kind: 'portfolio' } : null, []);
+
+  const lifecycleEvents = useEngineQuery(
+    loanIndex,
+    auditMode === 'lifecycle' && idKey && fileNames.length >= 2 ? { kind: 'lifecycle' } : null,
+    [],
+  );
+
+  const batchIds = useMemo(() => parseLoanList(batchText), [batchText]);
+
+  const batchEntries = useEngineQuery(
+    loanIndex,
+    auditMode === 'batch' && idKey && batchIds.length > 0 ? { kind: 'batch', loanIds: batchIds } : null,
+    [],
+  );
+
+  const batchFoundCount = useMemo(() => {
+    return batchEntries.filter(e => e.results.length > 0).length;
+  }, [batchEntries]);
+
+  const reconcileReport = useEngineQuery(loanIndex, auditMode === 'reconcile' ? { kind: 'reconcile' } : null, null);
+
+  const reconcileCounts = useMemo(() => reconcileReport && countByStatus(reconcileReport), [reconcileReport]);
+
+  const portfolioChangedCount = useMemo(() => {
+    return portfolioSummaries.filter(s => s.changeCount > 0).length;
+  }, [portfolioSummaries]);
+
+  const summaryColumns = useMemo(() => {
+    if (auditResults.length === 0 || !idKey) return [];
+    return filterColumnsToGroups(buildSummaryColumns(auditResults, idKey, columnFilters.ignoredColumns), columnFilters);
+  }, [auditResults, idKey, columnFilters]);
+
+  // Long-format records for whichever audit is on screen; built on demand since portfolio logs can be large
+  const buildCurrentChangeLog = useCallback((): Promise<ChangeRecord[]> => {
+    if (!idKey) return Promise.resolve([]);
+    if (auditMode === 'portfolio') return query({ kind: 'portfolioChangeLog' });
+    if (auditMode === 'batch') return Promise.resolve(batchEntries.flatMap(e => buildChangeLog(e.results, idKey)));
+    return Promise.resolve(buildChangeLog(timelineResults, idKey));
+  }, [auditMode, idKey, query, batchEntries, timelineResults]);
+
+  const handleChangeLogDownload = (format: ChangeLogFormat) => {
+    const baseName = auditMode === 'portfolio'
+      ? 'Change_Log_Portfolio'
+      : auditMode === 'batch'
+        ? `Change_Log_Batch_${batchEntries.length}_Loans`
+        : `Change_Log_Loan_${timelineLoanId}`;
+    buildCurrentChangeLog()
+      .then(records => exportChangeLog(records, format, baseName))
+      .catch(err => console.error("Error exporting change log:", err));
+  };
+
+  const conflictResolution = describeDuplicateSettings(duplicateSettings);
+
+  // Report sections covering every file are built in the worker, from the same engine as the results on screen
   const handleDownload = useCallback(() => {
-    if (auditResults.length > 0 && idKey) {
-      // Pass the exportColumns which contains ALL columns in the requested order
-      exportToExcel(auditResults, searchQuery, exportColumns);
+    const failed = (err: unknown) => console.error("Error exporting report:", err);
+    if (auditMode === 'portfolio') {
+      Promise.all([query({ kind: 'sharedExtras' }), buildCurrentChangeLog()])
+        .then(([shared, changeLog]) => exportPortfolioToExcel(portfolioSummaries, { ...shared, changeLog }))
+        .catch(failed);
+      return;
+    }
+    if (auditMode === 'lifecycle') {
+      exportLifecycleToExcel(lifecycleEvents);
+      return;
     }
-  }, [auditResults, searchQuery, idKey, exportColumns]);
+    if (auditMode === 'batch') {
+      const requested = new Set(batchIds.map(normalizeId));
+      if (idKey) {
+        query({ kind: 'sharedExtras' }).then(shared => exportBatchToExcel(batchEntries, idKey, {
+          metadata: shared.metadata,
+          conflicts: (shared.conflicts ?? []).filter(c => requested.has(normalizeId(c.loanId))),
+          conflictResolution: shared.conflictResolution,
+          schema: shared.schema,
+          baseline: shared.baseline,
+        }, columnFilters)).catch(failed);
+      }
+      return;
+    }
+    if (auditMode === 'reconcile') {
+      if (reconcileReport && idKey) {
+        query({ kind: 'sharedExtras' }).then(shared => exportReconciliationToExcel(reconcileReport, idKey, {
+          metadata: shared.metadata,
+          conflicts: shared.conflicts,
+          conflictResolution: shared.conflictResolution,
+          schema: shared.schema,
+        })).catch(failed);
+      }
+      return;
+    }
+    // The same engine call the command-line auditor makes, so both produce identical workbooks
+    query({ kind: 'loanReport', loanId: timelineLoanId }).then(report => {
+      if (report) return exportToExcel(report.results, report.loanId, report.columns, report.extras);
+    }).catch(failed);
+  }, [
+    auditMode, query, portfolioSummaries, lifecycleEvents, batchIds, batchEntries, reconcileReport, idKey, timelineLoanId,
+    buildCurrentChangeLog, columnFilters,
+  ]);
+
+  const openLoanTimeline = useCallback((loanId: string) => {
+    setSearchQuery(loanId);
+    setSearchOptions(DEFAULT_SEARCH);
+    setPickedLoan(null);
+    setReturnMode(auditMode);
+    setAuditMode('single');
+  }, [auditMode]);
+
+  const canExport = auditMode === 'portfolio'
+    ? portfolioSummaries.length > 0
+    : auditMode === 'lifecycle'
+      ? lifecycleEvents.length > 0
+      : auditMode === 'batch'
+        ? batchEntries.length > 0
+        : auditMode === 'reconcile'
+          ? (reconcileReport?.entries.length ?? 0) > 0
+          : auditResults.length > 0;
+
+  const resolvePendingWorkbook = (sheets: FileData[]) => {
+    setFiles(prev => insertByAsOfDate(prev, sheets));
+    setPendingWorkbooks(prev => prev.slice(1));
+  };
+
+  const handleLoanListUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    // Parsed in the worker, which can tell a header from a loan number it has indexed
+    file.text()
+      .then(text => query({ kind: 'loanList', text, firstColumnOnly: /\.csv$/i.test(file.name) }))
+      .then(ids => setBatchText(ids.join('\n')))
+      .catch(err => {
+        console.error(`Error reading ${file.name}:`, err);
+        setParseFailures([err instanceof Error ? err.message : `Could not read ${file.name}`]);
+      });
+  };
+
+  const updateRules = (rules: FieldRule[]) => {
+    setFieldRules(rules);
+    saveRules(rules);
+  };
+
+  // Saving under the active session's name overwrites it; any other name starts a new session
+  const buildSession = (name: string): AuditSession | null => {
+    if (!name || files.length === 0) return null;
+    return {
+      id: activeSession?.name === name ? activeSession.id : crypto.randomUUID(),
+      name,
+      savedAt: new Date().toISOString(),
+      files,
+      columnMapping,
+      comparisonSettings,
+      fieldRules,
+      auditMode,
+      searchQuery,
+      searchOptions,
+      baseline: baselineSettings,
+      columnFilters,
+      reviews,
+      batchText,
+      duplicateSettings,
+    };
+  };
+
+  const openSession = (session: AuditSession) => {
+    setFiles(session.files);
+    setColumnMapping(session.columnMapping ?? EMPTY_MAPPING);
+    setComparisonSettings(session.comparisonSettings ?? EMPTY_COMPARISON);
+    // Session rules apply to this audit only; the saved rules change when the user next edits them
+    setFieldRules(session.fieldRules ?? []);
+    setAuditMode(session.auditMode ?? 'single');
+    updateSearch(session.searchQuery ?? '', session.searchOptions ?? DEFAULT_SEARCH);
+    setBatchText(session.batchText ?? '');
+    setDuplicateSettings(session.duplicateSettings ?? DEFAULT_DUPLICATES);
+    setBaselineSettings(session.baseline ?? DEFAULT_BASELINE);
+    setColumnFilters(session.columnFilters ?? EMPTY_COLUMN_FILTERS);
+    setReviews(session.reviews ?? EMPTY_REVIEWS);
+    setReturnMode(null);
+    setActiveSession({ id: session.id, name: session.name });
+    setShowSessions(false);
+  };
 
   const removeFile = (index: number) => {
     setFiles(prev => prev.filter((_, i) => i !== index));
   };
 
+  // Only the edited file moves, so the rest of a manual order is kept
+  const setFileAsOfDate = (index: number, date: string) => {
+    setFiles(prev => insertByAsOfDate(
+      prev.filter((_, i) => i !== index),
+      [withAsOfDate(prev[index], date || null, date ? 'manual' : null)],
+    ));
+  };
+
+  // Re-reads an uploaded CSV with a manual delimiter or encoding, keeping the user's date, source tag and exclusion choice.
+  // The file keeps its place unless its inferred date changed
+  const reparseFile = (index: number, settings: ParseSettings) => {
+    const current = files[index];
+    const upload = current.uploadId && uploadedCsvs.current.get(current.uploadId);
+    if (!upload) return;
+    setLoading(true);
+    setParseProgress({ [current.name]: 0 });
+    parseCsvFile(upload, fraction => setParseProgress({ [current.name]: fraction }), settings).then(parsed => {
+      setFiles(prev => {
+        const at = prev.findIndex(f => f.uploadId === current.uploadId);
+        if (at === -1) return prev;
+        const f = prev[at];
+        const reread = { ...f, data: parsed.data, diagnostics: parsed.diagnostics };
+        const next = f.asOfSource === 'manual' ? withAsOfDate(reread, f.asOfDate ?? null, 'manual') : inferAsOfDate(reread);
+        return next.asOfDate === f.asOfDate
+          ? prev.map((other, i) => (i === at ? next : other))
+          : insertByAsOfDate(prev.filter((_, i) => i !== at), [next]);
+      });
+    }).catch(err => {
+      console.error(`Error parsing ${current.name}:`, err);
+      setParseFailures([err instanceof Error ? err.message : `Could not read ${current.name}`]);
+    }).finally(() => {
+      setLoading(false);
+      setParseProgress({});
+    });
+  };
+
+  const setFileExcludeBadRows = (index: number, excludeBadRows: boolean) => {
+    setFiles(prev => prev.map((f, i) => (i === index ? { ...f, excludeBadRows } : f)));
+  };
+
+  const setFileSource = (index: number, source: ReconcileSource | undefined) => {
+    setFiles(prev => prev.map((f, i) => (i === index ? { ...f, source } : f)));
+  };
+
+  // Manual drag-and-drop reordering; dates are left untouched so conflicts surface as warnings
+  const moveFile = (from: number, to: number) => {
+    if (from === to) return;
+    setFiles(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  };
+
+  const outOfOrderFiles = useMemo(() => findOutOfOrder(files), [files]);
+
   return (
     <div className="min-h-screen flex flex-col font-sans bg-[#fcfcfd]">
       <header className="bg-white border-b border-slate-200 sticky top-0 z-30 shadow-sm">
@@ -172,19 +483,50 @@ const App: React.FC = () => {
             </div>
           </div>
           <div className="flex items-center gap-4">
+            <button
+              onClick={() => setShowSessions(true)}
+              className="flex items-center gap-2 text-slate-500 hover:text-indigo-600 px-3 py-2.5 rounded-xl font-bold transition-colors text-sm"
+            >
+              <FolderOpen size={18} />
+              <span className="hidden md:inline">{activeSession ? activeSession.name : 'Sessions'}</span>
+            </button>
             {files.length > 0 && (
               <div className="hidden sm:flex flex-col items-end mr-2">
                 <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Inventory</span>
                 <span className="text-sm font-bold text-slate-700">{files.length} Files</span>
               </div>
             )}
-            {auditResults.length > 0 && (
+            {canExport && auditMode !== 'lifecycle' && auditMode !== 'reconcile' && (
+              <div className="hidden md:flex items-center gap-1 bg-slate-100 p-1 rounded-xl" title="One record per changed field">
+                <span className="flex items-center gap-1 text-[10px] font-black text-slate-400 uppercase tracking-widest px-2">
+                  <FileText size={12} /> Change Log
+                </span>
+                {(['csv', 'json'] as const).map(format => (
+                  <button
+                    key={format}
+                    onClick={() => handleChangeLogDownload(format)}
+                    className="text-[10px] font-black text-slate-600 hover:text-indigo-600 hover:bg-white uppercase tracking-widest px-2.5 py-1.5 rounded-lg transition-colors"
+                  >
+                    {format}
+                  </button>
+                ))}
+              </div>
+            )}
+            {canExport && (
               <button
                 onClick={handleDownload}
                 className="flex items-center gap-2 bg-slate-900 hover:bg-black text-white px-6 py-2.5 rounded-xl font-bold transition-all shadow-xl hover:scale-[1.02] active:scale-95 text-sm"
               >
                 <Download size={18} />
-                Export Audit Report
+                {auditMode === 'portfolio'
+                  ? 'Export Portfolio Summary'
+                  : auditMode === 'lifecycle'
+                    ? 'Export Lifecycle Report'
+                    : auditMode === 'batch'
+                      ? 'Export Batch Workbook'
+                      : auditMode === 'reconcile'
+                        ? 'Export Reconciliation'
+                        : 'Export Audit Report'}
               </button>
             )}
           </div>
@@ -199,7 +541,14 @@ const App: React.FC = () => {
                 <FileUp size={16} className="text-indigo-600" /> 1. Upload Source
               </h2>
               {files.length > 0 && (
-                <button onClick={() => setFiles([])} className="text-[10px] font-bold text-slate-400 hover:text-rose-600 transition-colors uppercase tracking-widest">Clear All</button>
+                <div className="flex items-center gap-4">
+                  {outOfOrderFiles.size > 0 && (
+                    <button onClick={() => setFiles(prev => sortByAsOfDate(prev))} className="flex items-center gap-1 text-[10px] font-bold text-amber-600 hover:text-indigo-600 transition-colors uppercase tracking-widest">
+                      <CalendarDays size={12} /> Sort by Date
+                    </button>
+                  )}
+                  <button onClick={() => setFiles([])} className="text-[10px] font-bold text-slate-400 hover:text-rose-600 transition-colors uppercase tracking-widest">Clear All</button>
+                </div>
               )}
             </div>
             
@@ -214,7 +563,7 @@ const App: React.FC = () => {
               <input
                 type="file"
                 multiple
-                accept=".csv"
+                accept=".csv,.xlsx"
                 onChange={handleFileUpload}
                 className="absolute inset-0 opacity-0 cursor-pointer z-10"
               />
@@ -224,29 +573,49 @@ const App: React.FC = () => {
                 }`}>
                   <FileUp size={24} />
                 </div>
-                <p className="text-sm font-black text-slate-700">Drop Audit CSVs Here</p>
-                <p className="text-[10px] text-slate-400 mt-1 font-bold uppercase tracking-tighter">Supports multiple files</p>
+                <p className="text-sm font-black text-slate-700">Drop Audit CSVs or Workbooks Here</p>
+                <p className="text-[10px] text-slate-400 mt-1 font-bold uppercase tracking-tighter">Supports multiple .csv and .xlsx files</p>
               </div>
             </div>
 
+            {loading && <ParseProgress progress={parseProgress} />}
+
+            {indexing && !loading && files.length > 0 && (
+              <p className="flex items-center gap-2 px-2 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                <Loader2 size={12} className="animate-spin text-indigo-500" /> Indexing loans…
+              </p>
+            )}
+
+            {parseFailures.length > 0 && (
+              <div className="flex items-start gap-3 p-4 bg-rose-50 border border-rose-100 rounded-2xl text-rose-700">
+                <AlertCircle size={16} className="shrink-0 mt-0.5" />
+                <div className="flex-1 space-y-1">
+                  {parseFailures.map(message => <p key={message} className="text-xs font-bold">{message}</p>)}
+                </div>
+                <button onClick={() => setParseFailures([])} className="text-[10px] font-bold text-rose-400 hover:text-rose-700 uppercase tracking-widest">Dismiss</button>
+              </div>
+            )}
+
             {files.length > 0 && (
               <div className="space-y-2 max-h-64 overflow-y-auto pr-2 custom-scrollbar">
                 {files.map((f, idx) => (
-                  <div key={`${f.name}-${idx}`} className="flex items-center gap-3 bg-slate-50 p-3 rounded-2xl border border-slate-100 group">
-                    <div className="p-1.5 bg-white border border-slate-200 rounded-lg text-slate-400 group-hover:text-indigo-600 transition-colors">
-                      <FileSpreadsheet size={14} />
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <p className="truncate text-xs font-black text-slate-700">{f.name}</p>
-                      <p className="text-[10px] text-slate-400 uppercase font-black tracking-tight">{f.data.length} records</p>
-                    </div>
-                    <button 
-                      onClick={() => removeFile(idx)}
-                      className="opacity-0 group-hover:opacity-100 p-1.5 text-slate-300 hover:text-rose-500 transition-all"
-                    >
-                      <Trash2 size={14} />
-                    </button>
-                  </div>
+                  <FileCard
+                    key={`${f.name}-${idx}`}
+                    file={f}
+                    outOfOrder={outOfOrderFiles.has(idx)}
+                    duplicateCount={fileStats(f)?.duplicates ?? 0}
+                    issues={fileStats(f)?.issues ?? []}
+                    isDropTarget={dragFileIndex !== null && dropFileIndex === idx && dragFileIndex !== idx}
+                    onRemove={() => removeFile(idx)}
+                    onDateChange={(date) => setFileAsOfDate(idx, date)}
+                    onDragStart={() => setDragFileIndex(idx)}
+                    onDragEnter={() => setDropFileIndex(idx)}
+                    onDragEnd={() => { setDragFileIndex(null); setDropFileIndex(null); }}
+                    onDrop={() => { if (dragFileIndex !== null) moveFile(dragFileIndex, idx); }}
+                    onSourceChange={auditMode === 'reconcile' ? (source) => setFileSource(idx, source) : undefined}
+                    onParseSettingsChange={f.diagnostics && f.uploadId && uploadedCsvs.current.has(f.uploadId) ? (settings) => reparseFile(idx, settings) : undefined}
+                    onExcludeBadRowsChange={(exclude) => setFileExcludeBadRows(idx, exclude)}
+                  />
                 ))}
               </div>
             )}
@@ -258,19 +627,111 @@ const App: React.FC = () => {
             </h2>
             
             <div className="space-y-8 flex-1 flex flex-col justify-center max-w-2xl mx-auto w-full">
-              <div className="relative">
-                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-3 px-1">Search Identifier (Loan Number)</label>
-                <div className="relative group">
-                  <input
-                    type="text"
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    placeholder="Enter Loan ID (e.g. 275032)"
-                    className="w-full pl-14 pr-4 py-5 bg-slate-50 border border-slate-200 rounded-2xl focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 focus:outline-none transition-all text-xl font-bold text-slate-800 placeholder:text-slate-300"
+              <div className="flex bg-slate-100 p-1 rounded-2xl">
+                {([
+                  { mode: 'single', label: 'Single Loan', icon: <Search size={14} /> },
+                  { mode: 'portfolio', label: 'Portfolio Scan', icon: <Layers size={14} /> },
+                  { mode: 'lifecycle', label: 'Lifecycle', icon: <GitBranch size={14} /> },
+                  { mode: 'batch', label: 'Batch', icon: <ListChecks size={14} /> },
+                  { mode: 'reconcile', label: 'Reconcile', icon: <ArrowLeftRight size={14} /> },
+                ] as const).map(({ mode, label, icon }) => (
+                  <button
+                    key={mode}
+                    onClick={() => { setAuditMode(mode); setReturnMode(null); }}
+                    className={`flex-1 flex items-center justify-center gap-2 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${
+                      auditMode === mode ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'
+                    }`}
+                  >
+                    {icon} {label}
+                  </button>
+                ))}
+              </div>
+
+              {auditMode !== 'lifecycle' && auditMode !== 'reconcile' && files.length > 0 && (
+                <BaselinePicker
+                  baseline={baseline}
+                  fileNames={fileNames}
+                  onChange={setBaselineSettings}
+                />
+              )}
+
+              {auditMode === 'single' && (
+                <div className="relative">
+                  <div className="flex items-center justify-between gap-3 mb-3 px-1">
+                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                      Search {searchOptions.field === LOAN_NUMBER_FIELD ? 'Identifier (Loan Number)' : searchOptions.field === ALL_FIELDS ? 'All Columns' : searchOptions.field}
+                    </label>
+                    <div className="flex items-center gap-2">
+                      <select
+                        value={searchOptions.field}
+                        onChange={(e) => updateSearch(searchQuery, { ...searchOptions, field: e.target.value })}
+                        className="bg-slate-100 rounded-lg px-2 py-1 text-[10px] font-black text-slate-500 uppercase tracking-widest focus:outline-none max-w-[160px]"
+                      >
+                        <option value={LOAN_NUMBER_FIELD}>Loan Number</option>
+                        <option value={ALL_FIELDS}>All Columns</option>
+                        {mappedColumns.filter(c => c !== idKey).map(c => <option key={c} value={c}>{c}</option>)}
+                      </select>
+                      <select
+                        value={searchOptions.mode}
+                        onChange={(e) => updateSearch(searchQuery, { ...searchOptions, mode: e.target.value as SearchMatchMode })}
+                        className="bg-slate-100 rounded-lg px-2 py-1 text-[10px] font-black text-slate-500 uppercase tracking-widest focus:outline-none"
+                      >
+                        {(Object.keys(MATCH_MODE_LABELS) as SearchMatchMode[]).map(mode => (
+                          <option key={mode} value={mode}>{MATCH_MODE_LABELS[mode]}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                  <div className="relative group">
+                    <input
+                      type="text"
+                      value={searchQuery}
+                      onChange={(e) => updateSearch(e.target.value)}
+                      onFocus={() => setShowSuggestions(true)}
+                      onBlur={() => setShowSuggestions(false)}
+                      placeholder={searchOptions.field !== LOAN_NUMBER_FIELD
+                        ? 'Enter a name, address or any value (e.g. SMITH*)'
+                        : idKey === COMPOSITE_KEY_COLUMN ? `Enter composite key (e.g. 275032${COMPOSITE_KEY_SEPARATOR}INV01)` : 'Enter Loan ID (e.g. 275032)'}
+                      className="w-full pl-14 pr-4 py-5 bg-slate-50 border border-slate-200 rounded-2xl focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 focus:outline-none transition-all text-xl font-bold text-slate-800 placeholder:text-slate-300"
+                    />
+                    <Search className="absolute left-5 top-1/2 -translate-y-1/2 text-slate-400 group-focus-within:text-indigo-600 transition-colors" size={24} />
+                    {showSuggestions && suggestions.length > 0 && (
+                      <ul className="absolute left-0 right-0 top-full mt-2 bg-white border border-slate-200 rounded-2xl shadow-xl z-30 overflow-hidden">
+                        {suggestions.map(id => (
+                          <li key={id}>
+                            <button
+                              // mousedown fires before the input blurs and hides the list
+                              onMouseDown={(e) => { e.preventDefault(); updateSearch(id, DEFAULT_SEARCH); setShowSuggestions(false); }}
+                              className="w-full text-left px-5 py-2.5 text-sm font-bold text-slate-700 hover:bg-indigo-50 hover:text-indigo-700 transition-colors"
+                            >
+                              {id}
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {auditMode === 'batch' && (
+                <div>
+                  <div className="flex items-center justify-between mb-3 px-1">
+                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Loan Numbers (one per line or comma separated)</label>
+                    <label className="flex items-center gap-1 text-[10px] font-bold text-indigo-600 hover:text-indigo-800 uppercase tracking-widest cursor-pointer">
+                      <Upload size={12} /> Upload List
+                      <input type="file" accept=".csv,.txt" onChange={handleLoanListUpload} className="hidden" />
+                    </label>
+                  </div>
+                  <textarea
+                    value={batchText}
+                    onChange={(e) => setBatchText(e.target.value)}
+                    rows={5}
+                    placeholder={'275032\n275033\n275040'}
+                    className="w-full px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 focus:outline-none transition-all text-sm font-bold text-slate-800 placeholder:text-slate-300 font-mono custom-scrollbar"
                   />
-                  <Search className="absolute left-5 top-1/2 -translate-y-1/2 text-slate-400 group-focus-within:text-indigo-600 transition-colors" size={24} />
                 </div>
-              </div>
+              )}
 
               {!files.length ? (
                 <div className="flex items-center gap-5 p-6 bg-amber-50 border border-amber-100 rounded-2xl text-amber-800">
@@ -279,7 +740,77 @@ const App: React.FC = () => {
                   </div>
                   <div>
                     <p className="text-sm font-black uppercase tracking-tight">System Ready</p>
-                    <p className="text-xs font-medium opacity-80 mt-1">Please upload source CSV files to begin the cross-file comparison process.</p>
+                    <p className="text-xs font-medium opacity-80 mt-1">Please upload source CSV or Excel files to begin the cross-file comparison process.</p>
+                  </div>
+                </div>
+              ) : auditMode === 'portfolio' ? (
+                <div className="flex items-center gap-5 p-6 bg-indigo-50 border border-indigo-100 rounded-2xl text-indigo-800 animate-in fade-in slide-in-from-bottom-2 duration-300">
+                  <div className="w-12 h-12 bg-indigo-100 rounded-xl flex items-center justify-center shrink-0">
+                    <Layers size={24} className="text-indigo-600" />
+                  </div>
+                  <div>
+                    <p className="text-sm font-black uppercase tracking-tight">Portfolio Scan Complete</p>
+                    <p className="text-xs font-medium opacity-80 mt-1">
+                      {idKey
+                        ? <>Scanned {portfolioSummaries.length} loans across {files.length} files. {portfolioChangedCount} loans show variations between snapshots.</>
+                        : 'No loan number column was detected in the uploaded files.'}
+                    </p>
+                  </div>
+                </div>
+              ) : auditMode === 'batch' ? (
+                <div className="flex items-center gap-5 p-6 bg-indigo-50 border border-indigo-100 rounded-2xl text-indigo-800 animate-in fade-in slide-in-from-bottom-2 duration-300">
+                  <div className="w-12 h-12 bg-indigo-100 rounded-xl flex items-center justify-center shrink-0">
+                    <ListChecks size={24} className="text-indigo-600" />
+                  </div>
+                  <div>
+                    <p className="text-sm font-black uppercase tracking-tight">Batch Audit</p>
+                    <p className="text-xs font-medium opacity-80 mt-1">
+                      {batchIds.length === 0
+                        ? 'Paste or upload a list of loan numbers to audit them together.'
+                        : `${batchFoundCount} of ${batchIds.length} requested loans located across ${files.length} files.`}
+                    </p>
+                  </div>
+                </div>
+              ) : auditMode === 'reconcile' ? (
+                <div className="flex items-center gap-5 p-6 bg-indigo-50 border border-indigo-100 rounded-2xl text-indigo-800 animate-in fade-in slide-in-from-bottom-2 duration-300">
+                  <div className="w-12 h-12 bg-indigo-100 rounded-xl flex items-center justify-center shrink-0">
+                    <ArrowLeftRight size={24} className="text-indigo-600" />
+                  </div>
+                  <div>
+                    <p className="text-sm font-black uppercase tracking-tight">Source Reconciliation</p>
+                    <p className="text-xs font-medium opacity-80 mt-1">
+                      {!idKey
+                        ? 'No loan number column was detected in the uploaded files.'
+                        : !reconcileReport || !reconcileCounts
+                          ? 'Tag at least one file as Source A and one as Source B using the A / B toggles in the file list.'
+                          : `Joined ${reconcileReport.filesA.length} Source A and ${reconcileReport.filesB.length} Source B files on ${idKey}. ${reconcileCounts.mismatched} loans disagree, ${reconcileCounts.only_a} are only in A and ${reconcileCounts.only_b} are only in B.`}
+                    </p>
+                  </div>
+                </div>
+              ) : auditMode === 'lifecycle' ? (
+                <div className="flex items-center gap-5 p-6 bg-indigo-50 border border-indigo-100 rounded-2xl text-indigo-800 animate-in fade-in slide-in-from-bottom-2 duration-300">
+                  <div className="w-12 h-12 bg-indigo-100 rounded-xl flex items-center justify-center shrink-0">
+                    <GitBranch size={24} className="text-indigo-600" />
+                  </div>
+                  <div>
+                    <p className="text-sm font-black uppercase tracking-tight">Lifecycle Comparison</p>
+                    <p className="text-xs font-medium opacity-80 mt-1">
+                      {fileNames.length < 2
+                        ? 'Upload at least two snapshots to compare loan populations.'
+                        : `Compared ${fileNames.length} consecutive snapshots. ${lifecycleEvents.length} boarding, drop-off and reappearance events found.`}
+                    </p>
+                  </div>
+                </div>
+              ) : showPicker ? (
+                <div className="flex items-center gap-5 p-6 bg-indigo-50 border border-indigo-100 rounded-2xl text-indigo-800 animate-in fade-in slide-in-from-bottom-2 duration-300">
+                  <div className="w-12 h-12 bg-indigo-100 rounded-xl flex items-center justify-center shrink-0">
+                    <Search size={24} className="text-indigo-600" />
+                  </div>
+                  <div>
+                    <p className="text-sm font-black uppercase tracking-tight">Several Loans Match</p>
+                    <p className="text-xs font-medium opacity-80 mt-1">
+                      {searchMatches.length > MAX_SEARCH_MATCHES ? `More than ${MAX_SEARCH_MATCHES}` : searchMatches.length} loans match <span className="font-black underline">{searchQuery}</span>. Pick one below to open its change timeline.
+                    </p>
                   </div>
                 </div>
               ) : auditResults.length === 0 && searchQuery ? (
@@ -299,7 +830,7 @@ const App: React.FC = () => {
                   </div>
                   <div>
                     <p className="text-sm font-black uppercase tracking-tight">Audit Matching Success</p>
-                    <p className="text-xs font-medium opacity-80 mt-1">Synthesized {auditResults.length} versions. {summaryColumns.length - 2} data fields identified with variations across the timeline.</p>
+                    <p className="text-xs font-medium opacity-80 mt-1">Synthesized {auditResults.length} versions. {changedFieldCount} data fields identified with variations across the timeline.{exceptionCount > 0 && ` ${exceptionCount} rule exceptions flagged.`}</p>
                   </div>
                 </div>
               )}
@@ -307,62 +838,231 @@ const App: React.FC = () => {
           </div>
         </div>
 
-        {auditResults.length > 0 && (
+        {files.length > 0 && (
+          <ColumnMappingPanel
+            files={files}
+            columns={mappedColumns}
+            idKey={idKey}
+            mapping={columnMapping}
+            onChange={setColumnMapping}
+          />
+        )}
+
+        {files.length > 0 && (
+          <ColumnFiltersPanel
+            columns={mappedColumns.filter(c => c !== idKey)}
+            settings={columnFilters}
+            onChange={setColumnFilters}
+          />
+        )}
+
+        {files.length > 0 && (
+          <ComparisonPanel
+            profiles={overview.profiles}
+            settings={comparisonSettings}
+            onChange={setComparisonSettings}
+          />
+        )}
+
+        {hasSchemaDrift(schemaReport) && (
+          <SchemaPanel
+            report={schemaReport}
+            onAcceptRename={(rename) => setColumnMapping(prev => ({ ...prev, aliases: withRenameAlias(prev.aliases, rename) }))}
+          />
+        )}
+
+        {hasDuplicates && (
+          <DuplicatesPanel
+            settings={duplicateSettings}
+            columns={mappedColumns}
+            conflicts={intraFileConflicts}
+            onChange={setDuplicateSettings}
+            onSelectLoan={openLoanTimeline}
+          />
+        )}
+
+        {files.length > 0 && (
+          <RulesPanel
+            rules={fieldRules}
+            columns={mappedColumns}
+            onChange={updateRules}
+          />
+        )}
+
+        {auditMode === 'portfolio' && portfolioSummaries.length > 0 && (
+          <section className="space-y-6 animate-in fade-in duration-700">
+            <div className="flex items-center justify-between px-2">
+              <h3 className="text-lg font-black text-slate-900 tracking-tight flex items-center gap-3">
+                Portfolio Changes
+                <span className="text-[10px] font-black bg-indigo-600 text-white px-3 py-1 rounded-full uppercase tracking-tighter shadow-lg shadow-indigo-100">{portfolioChangedCount} Changed</span>
+              </h3>
+              <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest hidden md:block">Select a loan to open its change timeline</p>
+            </div>
+            <PortfolioTable summaries={portfolioSummaries} onSelectLoan={openLoanTimeline} />
+          </section>
+        )}
+
+        {auditMode === 'lifecycle' && fileNames.length > 1 && (
+          <section className="space-y-6 animate-in fade-in duration-700">
+            <div className="flex items-center justify-between px-2">
+              <h3 className="text-lg font-black text-slate-900 tracking-tight flex items-center gap-3">
+                Loan Lifecycle
+                <span className="text-[10px] font-black bg-indigo-600 text-white px-3 py-1 rounded-full uppercase tracking-tighter shadow-lg shadow-indigo-100">{lifecycleEvents.length} Events</span>
+              </h3>
+              <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest hidden md:block">Select a loan to open its change timeline</p>
+            </div>
+            <LifecycleView
+              events={lifecycleEvents}
+              fileNames={fileNames}
+              onSelectLoan={openLoanTimeline}
+            />
+          </section>
+        )}
+
+        {auditMode === 'batch' && batchEntries.length > 0 && (
+          <section className="space-y-6 animate-in fade-in duration-700">
+            <div className="flex items-center justify-between px-2">
+              <h3 className="text-lg font-black text-slate-900 tracking-tight flex items-center gap-3">
+                Batch Results
+                <span className="text-[10px] font-black bg-indigo-600 text-white px-3 py-1 rounded-full uppercase tracking-tighter shadow-lg shadow-indigo-100">{batchFoundCount} / {batchEntries.length} Found</span>
+              </h3>
+              <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest hidden md:block">Select a found loan to open its change timeline</p>
+            </div>
+            <BatchView entries={batchEntries} onSelectLoan={openLoanTimeline} />
+          </section>
+        )}
+
+        {auditMode === 'reconcile' && reconcileReport && reconcileCounts && (
           <section className="space-y-6 animate-in fade-in duration-700">
             <div className="flex items-center justify-between px-2">
               <h3 className="text-lg font-black text-slate-900 tracking-tight flex items-center gap-3">
+                Reconciliation
+                <span className="text-[10px] font-black bg-indigo-600 text-white px-3 py-1 rounded-full uppercase tracking-tighter shadow-lg shadow-indigo-100">{reconcileCounts.mismatched} Mismatched</span>
+              </h3>
+              <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest hidden md:block">Select a loan to open its change timeline</p>
+            </div>
+            <ReconcileView report={reconcileReport} onSelectLoan={openLoanTimeline} />
+          </section>
+        )}
+
+        {showPicker && (
+          <section className="space-y-6 animate-in fade-in duration-700">
+            <div className="flex items-center justify-between px-2">
+              <h3 className="text-lg font-black text-slate-900 tracking-tight flex items-center gap-3">
+                Matching Loans
+                <span className="text-[10px] font-black bg-indigo-600 text-white px-3 py-1 rounded-full uppercase tracking-tighter shadow-lg shadow-indigo-100">{Math.min(searchMatches.length, MAX_SEARCH_MATCHES)} Shown</span>
+              </h3>
+              <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest hidden md:block">Select a loan to open its change timeline</p>
+            </div>
+            <LoanPicker matches={searchMatches} onSelectLoan={setPickedLoan} />
+          </section>
+        )}
+
+        {auditMode === 'single' && auditResults.length > 0 && (
+          <section className="space-y-6 animate-in fade-in duration-700">
+            <div className="flex items-center justify-between px-2">
+              <h3 className="text-lg font-black text-slate-900 tracking-tight flex items-center gap-3">
+                {!returnMode && pickedLoan && (
+                  <button
+                    onClick={() => setPickedLoan(null)}
+                    className="p-1.5 rounded-lg text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 transition-colors"
+                    title="Back to search matches"
+                  >
+                    <ArrowLeft size={18} />
+                  </button>
+                )}
+                {returnMode && (
+                  <button
+                    onClick={() => { setAuditMode(returnMode); setReturnMode(null); }}
+                    className="p-1.5 rounded-lg text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 transition-colors"
+                    title={`Back to ${returnMode}`}
+                  >
+                    <ArrowLeft size={18} />
+                  </button>
+                )}
                 Change Timeline
-                <span className="text-[10px] font-black bg-indigo-600 text-white px-3 py-1 rounded-full uppercase tracking-tighter shadow-lg shadow-indigo-100">Live Diff Engine</span>
+                <span className="text-[10px] font-black bg-indigo-600 text-white px-3 py-1 rounded-full uppercase tracking-tighter shadow-lg shadow-indigo-100">vs. {describeBaseline(baseline)}</span>
+                {columnFilters.activeGroups.length > 0 && (
+                  <span className="text-[10px] font-black bg-slate-100 text-slate-500 px-3 py-1 rounded-full uppercase tracking-tighter">
+                    {columnFilters.activeGroups.join(' • ')}
+                  </span>
+                )}
+                {timelineReviewProgress.total > 0 && (
+                  <span
+                    title="Click a highlighted cell to review it, or the clipboard in the file column to review a whole version"
+                    className={`text-[10px] font-black px-3 py-1 rounded-full uppercase tracking-tighter ${
+                      timelineReviewProgress.reviewed === timelineReviewProgress.total ? 'bg-emerald-50 text-emerald-700' : 'bg-slate-100 text-slate-500'
+                    }`}
+                  >
+                    {timelineReviewProgress.reviewed} of {timelineReviewProgress.total} changes reviewed
+                  </span>
+                )}
               </h3>
-              <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest hidden md:block">Yellow highlights indicate deviation from the chronologically preceding record</p>
+              <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest hidden md:block">
+                {baseline.mode === 'previous'
+                  ? 'Highlights indicate deviation from the chronologically preceding record, colored by rule severity'
+                  : baseline.mode === 'reference'
+                    ? 'Highlights indicate deviation from the reference file, colored by rule severity'
+                    : 'Highlights indicate deviation from the loan\'s first version, colored by rule severity'}
+              </p>
             </div>
             
-            <div className="bg-white rounded-[2rem] border border-slate-200 shadow-2xl overflow-hidden">
-              <div className="overflow-x-auto custom-scrollbar">
-                <table className="w-full text-left text-sm border-collapse">
-                  <thead>
-                    <tr className="bg-slate-50 border-b border-slate-200">
-                      {summaryColumns.map((header) => (
-                        <th key={header} className="px-8 py-5 font-black text-slate-400 uppercase tracking-[0.15em] text-[10px] whitespace-nowrap sticky top-0 bg-slate-50 z-20 border-r border-slate-100 last:border-0">
-                          {header}
-                        </th>
-                      ))}
-                    </tr>
-                  </thead>
-                  <tbody className="divide-y divide-slate-100">
-                    {auditResults.map((item, rowIdx) => (
-                      <tr key={rowIdx} className="hover:bg-slate-50 transition-colors group">
-                        {summaryColumns.map((key) => {
-                          const isChanged = item.changes.has(key);
-                          const isIdentifier = key === idKey || key === 'Found_In_File';
-                          return (
-                            <td
-                              key={key}
-                              className={`px-8 py-6 whitespace-nowrap transition-all border-r border-slate-50 last:border-0 ${
-                                isChanged 
-                                  ? 'bg-yellow-50/70 font-black text-yellow-900 shadow-[inset_0_0_0_1px_rgba(251,191,36,0.15)]' 
-                                  : isIdentifier 
-                                    ? 'bg-slate-50/50 font-bold text-slate-400 italic text-xs'
-                                    : 'text-slate-600 font-medium'
-                              }`}
-                            >
-                              <div className="flex items-center gap-2">
-                                {isChanged && <div className="w-1.5 h-1.5 rounded-full bg-yellow-400"></div>}
-                                {item.row[key]}
-                              </div>
-                            </td>
-                          );
-                        })}
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
+            {loanConflicts.length > 0 && (
+              <div className="flex items-start gap-3 p-4 bg-amber-50 border border-amber-100 rounded-2xl text-amber-800">
+                <AlertCircle size={18} className="text-amber-600 shrink-0 mt-0.5" />
+                <div className="text-xs font-medium space-y-1">
+                  <p className="font-black uppercase tracking-tight">Intra-file conflicts • {conflictResolution}</p>
+                  {loanConflicts.map(conflict => (
+                    <p key={conflict.file}>
+                      <span className="font-bold">{conflict.file}</span> holds {conflict.rows.length} rows for this loan
+                      {conflict.fields.length > 0 ? ` differing in ${conflict.fields.join(', ')}` : ' with identical values'}.
+                    </p>
+                  ))}
+                </div>
               </div>
-            </div>
+            )}
+            <TimelineTable
+              results={timelineResults}
+              columns={summaryColumns}
+              idKey={idKey}
+              ignoredColumns={columnFilters.ignoredColumns}
+              onReview={(item, field) => setReviewing({ item, field })}
+            />
           </section>
         )}
       </main>
 
+      {reviewing && idKey && (
+        <ReviewDialog
+          item={reviewing.item}
+          field={reviewing.field}
+          idKey={idKey}
+          subKey={subKey}
+          onSave={saveReview}
+          onClear={clearReview}
+          onClose={() => setReviewing(null)}
+        />
+      )}
+
+      {showSessions && (
+        <SessionManager
+          activeName={activeSession?.name ?? ''}
+          buildSession={buildSession}
+          onOpen={openSession}
+          onSaved={(session) => setActiveSession({ id: session.id, name: session.name })}
+          onClose={() => setShowSessions(false)}
+        />
+      )}
+
+      {pendingWorkbooks.length > 0 && (
+        <SheetPicker
+          key={pendingWorkbooks[0].fileName}
+          workbook={pendingWorkbooks[0]}
+          onConfirm={resolvePendingWorkbook}
+          onCancel={() => resolvePendingWorkbook([])}
+        />
+      )}
+
       <footer className="bg-slate-900 border-t border-slate-800 p-10 text-white mt-12">
         <div className="max-w-7xl mx-auto flex flex-col md:flex-row justify-between items-center gap-8">
           <div className="flex items-center gap-4 opacity-70">
@@ -377,7 +1077,7 @@ const App: React.FC = () => {
           <div className="flex flex-col md:items-end gap-2 text-[10px] font-black uppercase tracking-[0.2em] opacity-40">
             <div className="flex gap-6">
               <span>Client-Side Encryption</span>
-              <span>Zero-Data Retention</span>
+              <span>No Server Uploads</span>
             </div>
             <p className="text-slate-600">Built for accuracy and speed</p>
           </div>
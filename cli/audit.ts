@@ -0,0 +1,42 @@
+import { parseArgs } from 'node:util';
+import { parseBaseline, runAudit } from './runAudit.ts';
+
+const USAGE = `Usage: npm run audit -- <csv-folder> <loan-id...|all> [--out <dir>] [--project <file.loanaudit.json>] [--baseline <mode>]
+
+Writes one highlighted audit workbook per loan, identical to the app's Excel download.
+  --out       Output folder (default: current directory)
+  --project   Reuse the mapping, comparison, duplicate, rule, baseline and column filter settings of a saved project
+  --baseline  Compare against: previous (default), first, first_last or reference=<file name>`;
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', default: '.' },
+      project: { type: 'string' },
+      baseline: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  const [folder, ...loanIds] = positionals;
+  if (values.help || !folder || loanIds.length === 0) {
+    console.log(USAGE);
+    process.exitCode = values.help ? 0 : 2;
+    return;
+  }
+
+  const result = await runAudit({
+    folder,
+    loanIds,
+    outDir: values.out,
+    project: values.project,
+    baseline: values.baseline ? parseBaseline(values.baseline) : undefined,
+  });
+  // Missing loans fail the run so scheduled jobs notice, but the found loans are still written
+  if (result.missing.length > 0) process.exitCode = 1;
+};
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 2;
+});
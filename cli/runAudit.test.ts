@@ -0,0 +1,57 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import ExcelJS from 'exceljs';
+import { parseBaseline, runAudit } from './runAudit.ts';
+
+let folder: string;
+
+beforeEach(async () => {
+  folder = await mkdtemp(path.join(tmpdir(), 'loan-audit-'));
+  await writeFile(path.join(folder, 'tape_2024-01-31.csv'), 'Loan Number,Balance,Rate\n1001,"$250,000.00",5.0\n1002,100000,4.5\n');
+  await writeFile(path.join(folder, 'tape_2024-02-29.csv'), 'Loan Number,Balance,Rate\n1001,249000,5\n1002,100000,4.5\n');
+});
+
+afterEach(async () => {
+  await rm(folder, { recursive: true, force: true });
+});
+
+describe('runAudit', () => {
+  it('writes the highlighted single-loan workbook for each requested loan', async () => {
+    const outDir = path.join(folder, 'out');
+    const result = await runAudit({ folder, loanIds: ['1001', '9999'], outDir }, () => {});
+    expect(result.missing).toEqual(['9999']);
+    expect(result.written).toEqual([path.join(outDir, 'Audit_Full_Report_Loan_1001.xlsx')]);
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.readFile(result.written[0]);
+    const sheet = workbook.getWorksheet('Audit Report')!;
+    const headers = (sheet.getRow(1).values as string[]).slice(1);
+    const balance = sheet.getRow(3).getCell(headers.indexOf('Balance') + 1);
+    expect(balance.value).toBe('249000');
+    expect(String(balance.note)).toContain('Previous: $250,000.00');
+    expect(workbook.getWorksheet('Change Log')?.rowCount).toBe(2);
+  });
+
+  it('audits every loan when asked for all', async () => {
+    const result = await runAudit({ folder, loanIds: ['all'], outDir: path.join(folder, 'out') }, () => {});
+    expect(result.written.map(f => path.basename(f)).sort()).toEqual([
+      'Audit_Full_Report_Loan_1001.xlsx',
+      'Audit_Full_Report_Loan_1002.xlsx',
+    ]);
+    expect(result.missing).toEqual([]);
+  });
+});
+
+describe('parseBaseline', () => {
+  it('reads a mode and an optional reference file', () => {
+    expect(parseBaseline('first')).toEqual({ mode: 'first', referenceFile: '' });
+    expect(parseBaseline('reference=tape_2024-01-31.csv')).toEqual({ mode: 'reference', referenceFile: 'tape_2024-01-31.csv' });
+  });
+
+  it('rejects names inherited from Object', () => {
+    expect(() => parseBaseline('toString')).toThrow('Unknown baseline "toString"');
+    expect(() => parseBaseline('constructor')).toThrow('Unknown baseline "constructor"');
+  });
+});
@@ -0,0 +1,102 @@
+import { mkdir, readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { BaselineMode, ComparisonBaseline, FileData } from '../types.ts';
+import { prepareAudit, buildLoanReport, buildSharedExtras, AuditSettings, DEFAULT_AUDIT_SETTINGS } from '../services/auditEngine.ts';
+import { auditReportFileName, buildAuditWorkbook } from '../services/excelService.ts';
+import { parseCsvBytes } from '../services/csvService.ts';
+import { inferAsOfDate, sortByAsOfDate } from '../services/snapshotService.ts';
+import { parseSessionFile } from '../services/sessionService.ts';
+import { BASELINE_LABELS } from '../services/auditService.ts';
+
+export const ALL_LOANS = 'all';
+
+export interface CliOptions {
+  folder: string;
+  loanIds: string[]; // Or [ALL_LOANS]
+  outDir: string;
+  project?: string; // Saved project file whose mapping, comparison, duplicate, rule, baseline and column filter settings and reviews are reused
+  baseline?: ComparisonBaseline; // Overrides the project's baseline
+}
+
+export interface CliResult {
+  written: string[];
+  missing: string[];
+}
+
+// Reads every CSV in the folder the way the browser does: detected encoding and delimiter, inferred as-of dates, oldest snapshot first
+export const readCsvFolder = async (folder: string): Promise<FileData[]> => {
+  const names = (await readdir(folder)).filter(name => /\.csv$/i.test(name)).sort();
+  const files = await Promise.all(names.map(async name => {
+    return inferAsOfDate(parseCsvBytes(name, await readFile(path.join(folder, name))));
+  }));
+  return sortByAsOfDate(files);
+};
+
+// "previous", "first", "first_last" or "reference=<file name>"
+export const parseBaseline = (value: string): ComparisonBaseline => {
+  const [mode, ...rest] = value.split('=');
+  if (!Object.hasOwn(BASELINE_LABELS, mode)) throw new Error(`Unknown baseline "${value}"; use ${Object.keys(BASELINE_LABELS).join(', ')}`);
+  const referenceFile = rest.join('=');
+  if (mode === 'reference' && !referenceFile) throw new Error('The reference baseline needs a file name, e.g. reference=tape_2024-01-31.csv');
+  return { mode: mode as BaselineMode, referenceFile };
+};
+
+const readSettings = async (project?: string): Promise<AuditSettings> => {
+  if (!project) return DEFAULT_AUDIT_SETTINGS;
+  const session = parseSessionFile(await readFile(project, 'utf8'), path.basename(project));
+  return {
+    columnMapping: session.columnMapping ?? DEFAULT_AUDIT_SETTINGS.columnMapping,
+    comparisonSettings: session.comparisonSettings ?? DEFAULT_AUDIT_SETTINGS.comparisonSettings,
+    duplicateSettings: session.duplicateSettings ?? DEFAULT_AUDIT_SETTINGS.duplicateSettings,
+    fieldRules: session.fieldRules ?? DEFAULT_AUDIT_SETTINGS.fieldRules,
+    baseline: session.baseline ?? DEFAULT_AUDIT_SETTINGS.baseline,
+    columnFilters: session.columnFilters ?? DEFAULT_AUDIT_SETTINGS.columnFilters,
+    reviews: session.reviews ?? DEFAULT_AUDIT_SETTINGS.reviews,
+  };
+};
+
+// Composite keys and odd IDs may hold characters that are not allowed in file names
+const safeFileName = (name: string) => name.replace(/[\\/:*?"<>|]+/g, '_');
+
+export const runAudit = async (options: CliOptions, log: (message: string) => void = console.log): Promise<CliResult> => {
+  const files = await readCsvFolder(options.folder);
+  if (files.length === 0) throw new Error(`No CSV files found in ${options.folder}`);
+
+  files.forEach(file => {
+    const issues = file.diagnostics?.issues.length ?? 0;
+    if (issues > 0) log(`Warning: ${file.name} has ${issues} malformed or mis-sized rows`);
+  });
+
+  const settings = await readSettings(options.project);
+  const baseline = options.baseline ?? settings.baseline;
+  if (baseline.mode === 'reference' && !files.some(f => f.name === baseline.referenceFile)) {
+    throw new Error(`Reference file ${baseline.referenceFile} is not in ${options.folder}`);
+  }
+  const engine = prepareAudit(files, { ...settings, baseline });
+  if (!engine.idKey) throw new Error('Could not detect a loan ID column; save a project with a column mapping and pass --project');
+  log(`Loaded ${files.length} files, ${engine.loans.size} loans keyed on ${engine.idKey}`);
+
+  const idKey = engine.idKey;
+  const loanIds = options.loanIds.some(id => id.toLowerCase() === ALL_LOANS)
+    ? Array.from(engine.loans.values(), rows => String(rows[0][idKey]).trim())
+    : options.loanIds;
+
+  await mkdir(options.outDir, { recursive: true });
+  const shared = buildSharedExtras(engine);
+  const result: CliResult = { written: [], missing: [] };
+  for (const loanId of loanIds) {
+    const report = buildLoanReport(engine, loanId, shared);
+    const workbook = report && buildAuditWorkbook(report.results, report.columns, report.extras);
+    if (!report || !workbook) {
+      result.missing.push(loanId);
+      continue;
+    }
+    const target = path.join(options.outDir, safeFileName(auditReportFileName(report.loanId)));
+    await workbook.xlsx.writeFile(target);
+    result.written.push(target);
+  }
+
+  log(`Wrote ${result.written.length} workbooks to ${options.outDir}`);
+  if (result.missing.length > 0) log(`Not found: ${result.missing.join(', ')}`);
+  return result;
+};
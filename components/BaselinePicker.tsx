@@ -0,0 +1,44 @@
+import React from 'react';
+import { GitCompare } from 'lucide-react';
+import { BaselineMode, ComparisonBaseline } from '../types.ts';
+import { BASELINE_LABELS } from '../services/auditService.ts';
+
+interface BaselinePickerProps {
+  baseline: ComparisonBaseline;
+  fileNames: string[];
+  onChange: (baseline: ComparisonBaseline) => void;
+}
+
+const selectClass = 'bg-slate-100 rounded-lg px-2 py-1 text-[10px] font-black text-slate-500 uppercase tracking-widest focus:outline-none';
+
+const BaselinePicker: React.FC<BaselinePickerProps> = ({ baseline, fileNames, onChange }) => {
+  const setMode = (mode: BaselineMode) => {
+    // Reference mode starts from the oldest snapshot until the user picks another
+    const referenceFile = mode === 'reference' && !fileNames.includes(baseline.referenceFile) ? fileNames[0] ?? '' : baseline.referenceFile;
+    onChange({ mode, referenceFile });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-1">
+      <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-1.5">
+        <GitCompare size={12} /> Compare Against
+      </span>
+      <select value={baseline.mode} onChange={(e) => setMode(e.target.value as BaselineMode)} className={selectClass}>
+        {(Object.keys(BASELINE_LABELS) as BaselineMode[]).map(mode => (
+          <option key={mode} value={mode}>{BASELINE_LABELS[mode]}</option>
+        ))}
+      </select>
+      {baseline.mode === 'reference' && (
+        <select
+          value={baseline.referenceFile}
+          onChange={(e) => onChange({ ...baseline, referenceFile: e.target.value })}
+          className={`${selectClass} normal-case max-w-[240px]`}
+        >
+          {fileNames.map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+      )}
+    </div>
+  );
+};
+
+export default BaselinePicker;
@@ -0,0 +1,102 @@
+import React, { useMemo, useState } from 'react';
+import { CheckCircle2, ChevronRight, XCircle } from 'lucide-react';
+import { BatchEntry } from '../types.ts';
+
+interface BatchViewProps {
+  entries: BatchEntry[];
+  onSelectLoan: (loanId: string) => void;
+}
+
+type StatusFilter = 'all' | 'found' | 'missing';
+
+const BatchView: React.FC<BatchViewProps> = ({ entries, onSelectLoan }) => {
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+
+  const rows = useMemo(() => {
+    return entries.map(entry => {
+      const versions = entry.results.filter(res => !res.absent);
+      const changedFields = new Set<string>();
+      versions.forEach(res => res.changes.forEach(c => changedFields.add(c)));
+      return {
+        loanId: entry.loanId,
+        found: versions.length > 0,
+        versions: versions.length,
+        changedFields: Array.from(changedFields).sort(),
+        exceptions: versions.reduce((count, res) => count + (res.hits?.length ?? 0), 0),
+      };
+    });
+  }, [entries]);
+
+  const foundCount = rows.filter(r => r.found).length;
+  const visible = rows.filter(r => statusFilter === 'all' || (statusFilter === 'found') === r.found);
+
+  return (
+    <div className="bg-white rounded-[2rem] border border-slate-200 shadow-2xl overflow-hidden">
+      <div className="flex items-center gap-2 px-8 py-4 border-b border-slate-100">
+        {([
+          { key: 'all', label: `All (${rows.length})` },
+          { key: 'found', label: `Found (${foundCount})` },
+          { key: 'missing', label: `Not Found (${rows.length - foundCount})` },
+        ] as const).map(({ key, label }) => (
+          <button
+            key={key}
+            onClick={() => setStatusFilter(key)}
+            className={`text-[10px] font-black uppercase tracking-widest px-3 py-1.5 rounded-full transition-colors ${
+              statusFilter === key ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-600 bg-slate-50'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="overflow-x-auto max-h-[600px] overflow-y-auto custom-scrollbar">
+        <table className="w-full text-left text-sm border-collapse">
+          <thead>
+            <tr className="bg-slate-50 border-b border-slate-200">
+              {['Loan', 'Status', 'Versions', 'Exceptions', 'Changed Fields'].map(header => (
+                <th key={header} className="px-8 py-5 font-black text-slate-400 uppercase tracking-[0.15em] text-[10px] whitespace-nowrap sticky top-0 bg-slate-50 z-20">
+                  {header}
+                </th>
+              ))}
+              <th className="sticky top-0 bg-slate-50 z-20"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {visible.map(row => (
+              <tr
+                key={row.loanId}
+                onClick={row.found ? () => onSelectLoan(row.loanId) : undefined}
+                className={`transition-colors group ${row.found ? 'hover:bg-indigo-50/40 cursor-pointer' : 'bg-rose-50/30'}`}
+              >
+                <td className="px-8 py-4 whitespace-nowrap font-bold text-slate-700">{row.loanId}</td>
+                <td className="px-8 py-4 whitespace-nowrap">
+                  {row.found ? (
+                    <span className="inline-flex items-center gap-1 text-[10px] font-black text-emerald-700 uppercase"><CheckCircle2 size={12} /> Found</span>
+                  ) : (
+                    <span className="inline-flex items-center gap-1 text-[10px] font-black text-rose-600 uppercase"><XCircle size={12} /> Not Found</span>
+                  )}
+                </td>
+                <td className="px-8 py-4 whitespace-nowrap text-slate-600 font-medium">{row.versions}</td>
+                <td className="px-8 py-4 whitespace-nowrap text-slate-600 font-medium">{row.exceptions || ''}</td>
+                <td className="px-8 py-4">
+                  <div className="flex flex-wrap gap-1.5">
+                    {row.changedFields.map(field => (
+                      <span key={field} className="text-[10px] font-bold bg-yellow-50 text-yellow-900 border border-yellow-200 px-2 py-0.5 rounded-full whitespace-nowrap">
+                        {field}
+                      </span>
+                    ))}
+                  </div>
+                </td>
+                <td className="px-4 py-4 text-slate-300 group-hover:text-indigo-600 transition-colors">
+                  {row.found && <ChevronRight size={16} />}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default BatchView;
@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, EyeOff, Plus, Save, SlidersHorizontal, Trash2, X } from 'lucide-react';
+import { ColumnFilterProfile, ColumnFilterSettings, ColumnGroup } from '../types.ts';
+import { loadColumnFilterProfiles, saveColumnFilterProfiles } from '../services/columnFilterService.ts';
+
+interface ColumnFiltersPanelProps {
+  columns: string[];
+  settings: ColumnFilterSettings;
+  onChange: (settings: ColumnFilterSettings) => void;
+}
+
+const inputClass = 'w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs font-bold text-slate-700 focus:outline-none focus:border-indigo-500';
+const labelClass = 'text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2';
+const chipClass = 'flex items-center gap-1 text-[10px] font-bold bg-slate-100 text-slate-500 px-2 py-0.5 rounded-full';
+
+const ColumnFiltersPanel: React.FC<ColumnFiltersPanelProps> = ({ columns, settings, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [profiles, setProfiles] = useState<ColumnFilterProfile[]>(loadColumnFilterProfiles);
+  const [profileName, setProfileName] = useState('');
+
+  const update = (patch: Partial<ColumnFilterSettings>) => onChange({ ...settings, ...patch });
+
+  const setGroup = (index: number, group: ColumnGroup) => {
+    const previous = settings.groups[index];
+    // Renaming a group keeps it selected
+    const activeGroups = settings.activeGroups.map(name => (name === previous.name ? group.name : name));
+    update({ groups: settings.groups.map((g, i) => (i === index ? group : g)), activeGroups });
+  };
+
+  const removeGroup = (index: number) => {
+    const name = settings.groups[index].name;
+    update({ groups: settings.groups.filter((_, i) => i !== index), activeGroups: settings.activeGroups.filter(n => n !== name) });
+  };
+
+  const toggleGroup = (name: string) => {
+    const activeGroups = settings.activeGroups.includes(name)
+      ? settings.activeGroups.filter(n => n !== name)
+      : [...settings.activeGroups, name];
+    update({ activeGroups });
+  };
+
+  const persistProfiles = (next: ColumnFilterProfile[]) => {
+    setProfiles(next);
+    saveColumnFilterProfiles(next);
+  };
+
+  const saveProfile = () => {
+    const name = profileName.trim();
+    if (!name) return;
+    persistProfiles([...profiles.filter(p => p.name !== name), { ...settings, name }]);
+    setProfileName('');
+  };
+
+  const applyProfile = (name: string) => {
+    const profile = profiles.find(p => p.name === name);
+    if (!profile) return;
+    onChange({ ignoredColumns: profile.ignoredColumns, groups: profile.groups, activeGroups: profile.activeGroups });
+  };
+
+  return (
+    <section className="bg-white rounded-3xl border border-slate-200 shadow-sm">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className="w-full flex items-center justify-between px-6 py-5"
+      >
+        <h2 className="text-xs font-black text-slate-900 uppercase tracking-widest flex items-center gap-2">
+          <SlidersHorizontal size={16} className="text-indigo-600" /> Column Filters
+        </h2>
+        <div className="flex items-center gap-3">
+          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+            {settings.ignoredColumns.length} ignored • {settings.groups.length} groups
+            {settings.activeGroups.length > 0 && ` • showing ${settings.activeGroups.join(', ')}`}
+          </span>
+          {open ? <ChevronDown size={16} className="text-slate-400" /> : <ChevronRight size={16} className="text-slate-400" />}
+        </div>
+      </button>
+
+      {open && (
+        <div className="border-t border-slate-100 p-6 space-y-8">
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <div className="space-y-3">
+              <span className={labelClass}><EyeOff size={12} className="inline mr-1" />Ignored for Change Detection</span>
+              <select
+                value=""
+                onChange={(e) => e.target.value && update({ ignoredColumns: [...settings.ignoredColumns, e.target.value] })}
+                className={inputClass}
+              >
+                <option value="">Ignore a column (e.g. run date)…</option>
+                {columns.filter(c => !settings.ignoredColumns.includes(c)).map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+              <div className="flex flex-wrap gap-1.5">
+                {settings.ignoredColumns.map(column => (
+                  <span key={column} className={chipClass}>
+                    {column}
+                    <button onClick={() => update({ ignoredColumns: settings.ignoredColumns.filter(c => c !== column) })} className="hover:text-rose-500">
+                      <X size={10} />
+                    </button>
+                  </span>
+                ))}
+              </div>
+              <p className="text-[10px] font-medium text-slate-400">Ignored columns stay in the timeline and export but are never highlighted or counted.</p>
+            </div>
+
+            <div className="space-y-3">
+              <span className={labelClass}>Column Groups (tick to limit the timeline and export)</span>
+              {settings.groups.map((group, i) => (
+                <div key={i} className="bg-slate-50 p-3 rounded-2xl border border-slate-100 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={settings.activeGroups.includes(group.name)}
+                      onChange={() => toggleGroup(group.name)}
+                      disabled={!group.name.trim()}
+                      className="accent-indigo-600"
+                    />
+                    <input
+                      value={group.name}
+                      onChange={(e) => setGroup(i, { ...group, name: e.target.value })}
+                      placeholder="Payment"
+                      className={inputClass}
+                    />
+                    <button onClick={() => removeGroup(i)} className="p-1.5 text-slate-300 hover:text-rose-500 transition-colors">
+                      <X size={14} />
+                    </button>
+                  </div>
+                  <select
+                    value=""
+                    onChange={(e) => e.target.value && setGroup(i, { ...group, columns: [...group.columns, e.target.value] })}
+                    className={inputClass}
+                  >
+                    <option value="">Add a column…</option>
+                    {columns.filter(c => !group.columns.includes(c)).map(c => <option key={c} value={c}>{c}</option>)}
+                  </select>
+                  <div className="flex flex-wrap gap-1.5">
+                    {group.columns.map(column => (
+                      <span key={column} className={chipClass}>
+                        {column}
+                        <button onClick={() => setGroup(i, { ...group, columns: group.columns.filter(c => c !== column) })} className="hover:text-rose-500">
+                          <X size={10} />
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              <button
+                onClick={() => update({ groups: [...settings.groups, { name: '', columns: [] }] })}
+                className="flex items-center gap-1 text-[10px] font-bold text-indigo-600 hover:text-indigo-800 uppercase tracking-widest"
+              >
+                <Plus size={12} /> Add Group
+              </button>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-4 pt-6 border-t border-slate-100">
+            <div className="flex-1 min-w-[200px]">
+              <span className={labelClass}>Saved Profiles</span>
+              <select
+                value=""
+                onChange={(e) => applyProfile(e.target.value)}
+                disabled={profiles.length === 0}
+                className={inputClass}
+              >
+                <option value="">{profiles.length ? 'Apply a profile…' : 'No saved profiles'}</option>
+                {profiles.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+              </select>
+              {profiles.length > 0 && (
+                <div className="flex flex-wrap gap-1.5 mt-2">
+                  {profiles.map(p => (
+                    <span key={p.name} className={chipClass}>
+                      {p.name}
+                      <button onClick={() => persistProfiles(profiles.filter(x => x.name !== p.name))} className="hover:text-rose-500">
+                        <Trash2 size={10} />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="flex items-center gap-2 flex-1 min-w-[200px]">
+              <input
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+                placeholder="Profile name"
+                className={inputClass}
+              />
+              <button
+                onClick={saveProfile}
+                disabled={!profileName.trim()}
+                className="flex items-center gap-1.5 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white px-4 py-2 rounded-xl font-bold text-xs transition-colors whitespace-nowrap"
+              >
+                <Save size={14} /> Save Profile
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default ColumnFiltersPanel;
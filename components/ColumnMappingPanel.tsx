@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Columns3, KeyRound, Plus, Save, Trash2, X } from 'lucide-react';
+import { ColumnMapping, FileData, HeaderAlias, MappingProfile } from '../types.ts';
+import { detectIdColumn, fileHeaders, loadMappingProfiles, saveMappingProfiles } from '../services/mappingService.ts';
+
+interface ColumnMappingPanelProps {
+  files: FileData[];
+  columns: string[]; // Canonical column names after the current mapping is applied
+  idKey: string | null;
+  mapping: ColumnMapping;
+  onChange: (mapping: ColumnMapping) => void;
+}
+
+const selectClass = 'w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs font-bold text-slate-700 focus:outline-none focus:border-indigo-500';
+const labelClass = 'text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2';
+
+const ColumnMappingPanel: React.FC<ColumnMappingPanelProps> = ({ files, columns, idKey, mapping, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [profiles, setProfiles] = useState<MappingProfile[]>(loadMappingProfiles);
+  const [profileName, setProfileName] = useState('');
+
+  const update = (patch: Partial<ColumnMapping>) => onChange({ ...mapping, ...patch });
+
+  const setKeyColumn = (index: number, column: string) => {
+    const keyColumns = [...mapping.keyColumns];
+    keyColumns[index] = column;
+    update({ keyColumns });
+  };
+
+  const removeKeyColumn = (index: number) => {
+    update({ keyColumns: mapping.keyColumns.filter((_, i) => i !== index) });
+  };
+
+  const setFileIdColumn = (fileName: string, column: string) => {
+    const fileIdColumns = { ...mapping.fileIdColumns };
+    if (column) {
+      fileIdColumns[fileName] = column;
+    } else {
+      delete fileIdColumns[fileName];
+    }
+    update({ fileIdColumns });
+  };
+
+  const setAlias = (index: number, patch: Partial<HeaderAlias>) => {
+    update({ aliases: mapping.aliases.map((a, i) => (i === index ? { ...a, ...patch } : a)) });
+  };
+
+  const persistProfiles = (next: MappingProfile[]) => {
+    setProfiles(next);
+    saveMappingProfiles(next);
+  };
+
+  const saveProfile = () => {
+    const name = profileName.trim();
+    if (!name) return;
+    persistProfiles([...profiles.filter(p => p.name !== name), { ...mapping, name }]);
+    setProfileName('');
+  };
+
+  const applyProfile = (name: string) => {
+    const profile = profiles.find(p => p.name === name);
+    if (!profile) return;
+    onChange({ keyColumns: profile.keyColumns, fileIdColumns: profile.fileIdColumns, aliases: profile.aliases });
+  };
+
+  return (
+    <section className="bg-white rounded-3xl border border-slate-200 shadow-sm">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className="w-full flex items-center justify-between px-6 py-5"
+      >
+        <h2 className="text-xs font-black text-slate-900 uppercase tracking-widest flex items-center gap-2">
+          <Columns3 size={16} className="text-indigo-600" /> Column Mapping
+        </h2>
+        <div className="flex items-center gap-3">
+          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+            Key: {idKey ?? 'Not detected'}
+          </span>
+          {open ? <ChevronDown size={16} className="text-slate-400" /> : <ChevronRight size={16} className="text-slate-400" />}
+        </div>
+      </button>
+
+      {open && (
+        <div className="border-t border-slate-100 p-6 space-y-8">
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            <div className="space-y-3">
+              <span className={labelClass}><KeyRound size={12} className="inline mr-1" />Loan Key Columns</span>
+              <select value={mapping.keyColumns[0] ?? ''} onChange={(e) => setKeyColumn(0, e.target.value)} className={selectClass}>
+                <option value="">Auto-detect loan number</option>
+                {columns.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+              {mapping.keyColumns.slice(1).map((column, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <span className="text-[10px] font-black text-slate-300">+</span>
+                  <select value={column} onChange={(e) => setKeyColumn(i + 1, e.target.value)} className={selectClass}>
+                    <option value="">Select column</option>
+                    {columns.map(c => <option key={c} value={c}>{c}</option>)}
+                  </select>
+                  <button onClick={() => removeKeyColumn(i + 1)} className="p-1.5 text-slate-300 hover:text-rose-500 transition-colors">
+                    <X size={14} />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => update({ keyColumns: [mapping.keyColumns[0] ?? '', ...mapping.keyColumns.slice(1), ''] })}
+                className="flex items-center gap-1 text-[10px] font-bold text-indigo-600 hover:text-indigo-800 uppercase tracking-widest"
+              >
+                <Plus size={12} /> Add Key Part (e.g. Investor Code)
+              </button>
+            </div>
+
+            <div className="space-y-3">
+              <span className={labelClass}>ID Column per File</span>
+              {files.map(file => {
+                const headers = fileHeaders(file);
+                const detected = detectIdColumn(headers);
+                return (
+                  <div key={file.name}>
+                    <p className="truncate text-[10px] font-bold text-slate-500 mb-1">{file.name}</p>
+                    <select value={mapping.fileIdColumns[file.name] ?? ''} onChange={(e) => setFileIdColumn(file.name, e.target.value)} className={selectClass}>
+                      <option value="">{detected ? `Auto (${detected})` : 'Auto (none found)'}</option>
+                      {headers.map(h => <option key={h} value={h}>{h}</option>)}
+                    </select>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="space-y-3">
+              <span className={labelClass}>Header Aliases</span>
+              {mapping.aliases.map((alias, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <input
+                    value={alias.canonical}
+                    onChange={(e) => setAlias(i, { canonical: e.target.value })}
+                    list="mapping-columns"
+                    placeholder="Loan Number"
+                    className={selectClass}
+                  />
+                  <span className="text-[10px] font-black text-slate-300">=</span>
+                  <input
+                    value={alias.aliases.join(',')}
+                    onChange={(e) => setAlias(i, { aliases: e.target.value.split(',') })}
+                    placeholder="Loan Nbr, LoanID"
+                    className={selectClass}
+                  />
+                  <button onClick={() => update({ aliases: mapping.aliases.filter((_, j) => j !== i) })} className="p-1.5 text-slate-300 hover:text-rose-500 transition-colors">
+                    <X size={14} />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => update({ aliases: [...mapping.aliases, { canonical: '', aliases: [] }] })}
+                className="flex items-center gap-1 text-[10px] font-bold text-indigo-600 hover:text-indigo-800 uppercase tracking-widest"
+              >
+                <Plus size={12} /> Add Alias
+              </button>
+              <datalist id="mapping-columns">
+                {columns.map(c => <option key={c} value={c} />)}
+              </datalist>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-4 pt-6 border-t border-slate-100">
+            <div className="flex-1 min-w-[200px]">
+              <span className={labelClass}>Saved Profiles</span>
+              <div className="flex items-center gap-2">
+                <select
+                  value=""
+                  onChange={(e) => applyProfile(e.target.value)}
+                  disabled={profiles.length === 0}
+                  className={selectClass}
+                >
+                  <option value="">{profiles.length ? 'Apply a profile…' : 'No saved profiles'}</option>
+                  {profiles.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+                </select>
+              </div>
+              {profiles.length > 0 && (
+                <div className="flex flex-wrap gap-1.5 mt-2">
+                  {profiles.map(p => (
+                    <span key={p.name} className="flex items-center gap-1 text-[10px] font-bold bg-slate-100 text-slate-500 px-2 py-0.5 rounded-full">
+                      {p.name}
+                      <button onClick={() => persistProfiles(profiles.filter(x => x.name !== p.name))} className="hover:text-rose-500">
+                        <Trash2 size={10} />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="flex items-center gap-2 flex-1 min-w-[200px]">
+              <input
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+                placeholder="Profile name"
+                className={selectClass}
+              />
+              <button
+                onClick={saveProfile}
+                disabled={!profileName.trim()}
+                className="flex items-center gap-1.5 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white px-4 py-2 rounded-xl font-bold text-xs transition-colors whitespace-nowrap"
+              >
+                <Save size={14} /> Save Profile
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default ColumnMappingPanel;
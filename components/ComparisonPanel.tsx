@@ -0,0 +1,125 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Scale, Search } from 'lucide-react';
+import { ColumnProfile, ColumnType, ComparisonSettings } from '../types.ts';
+import { COLUMN_TYPES } from '../services/normalizeService.ts';
+
+interface ComparisonPanelProps {
+  profiles: Record<string, ColumnProfile>;
+  settings: ComparisonSettings;
+  onChange: (settings: ComparisonSettings) => void;
+}
+
+const NUMERIC_TYPES: ColumnType[] = ['currency', 'percent', 'number'];
+
+const TOLERANCE_UNITS: Partial<Record<ColumnType, string>> = {
+  currency: '$',
+  percent: 'pts',
+  number: '±',
+};
+
+const inputClass = 'bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs font-bold text-slate-700 focus:outline-none focus:border-indigo-500';
+
+const ComparisonPanel: React.FC<ComparisonPanelProps> = ({ profiles, settings, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [filter, setFilter] = useState('');
+
+  const columns = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    return Object.keys(profiles)
+      .filter(c => !needle || c.toLowerCase().includes(needle))
+      .sort();
+  }, [profiles, filter]);
+
+  const typedCount = useMemo(() => {
+    return Object.keys(profiles).filter(c => profiles[c].type !== 'text').length;
+  }, [profiles]);
+
+  const setType = (column: string, type: string) => {
+    const typeOverrides = { ...settings.typeOverrides };
+    if (type) {
+      typeOverrides[column] = type as ColumnType;
+    } else {
+      delete typeOverrides[column];
+    }
+    onChange({ ...settings, typeOverrides });
+  };
+
+  const setTolerance = (column: string, value: string) => {
+    const tolerances = { ...settings.tolerances };
+    const n = Number(value);
+    if (value.trim() && Number.isFinite(n) && n > 0) {
+      tolerances[column] = n;
+    } else {
+      delete tolerances[column];
+    }
+    onChange({ ...settings, tolerances });
+  };
+
+  return (
+    <section className="bg-white rounded-3xl border border-slate-200 shadow-sm">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className="w-full flex items-center justify-between px-6 py-5"
+      >
+        <h2 className="text-xs font-black text-slate-900 uppercase tracking-widest flex items-center gap-2">
+          <Scale size={16} className="text-indigo-600" /> Value Comparison
+        </h2>
+        <div className="flex items-center gap-3">
+          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+            {typedCount} typed columns • {Object.keys(settings.tolerances).length} tolerances
+          </span>
+          {open ? <ChevronDown size={16} className="text-slate-400" /> : <ChevronRight size={16} className="text-slate-400" />}
+        </div>
+      </button>
+
+      {open && (
+        <div className="border-t border-slate-100 p-6 space-y-4">
+          <div className="relative max-w-xs">
+            <input
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Filter columns"
+              className={`${inputClass} w-full pl-9`}
+            />
+            <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+          </div>
+
+          <div className="max-h-96 overflow-y-auto custom-scrollbar divide-y divide-slate-100">
+            {columns.map(column => {
+              const profile = profiles[column];
+              const isNumeric = NUMERIC_TYPES.includes(profile.type);
+              return (
+                <div key={column} className="flex items-center gap-4 py-2.5">
+                  <p className="flex-1 min-w-0 truncate text-xs font-black text-slate-700">{column}</p>
+                  <select
+                    value={settings.typeOverrides[column] ?? ''}
+                    onChange={(e) => setType(column, e.target.value)}
+                    className={`${inputClass} w-44`}
+                  >
+                    <option value="">Auto ({profile.inferredType})</option>
+                    {COLUMN_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                  </select>
+                  <div className="flex items-center gap-1.5 w-36">
+                    <span className="text-[10px] font-black text-slate-300 w-6 text-right">{TOLERANCE_UNITS[profile.type] ?? ''}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      disabled={!isNumeric}
+                      defaultValue={settings.tolerances[column] ?? ''}
+                      onChange={(e) => setTolerance(column, e.target.value)}
+                      placeholder={isNumeric ? 'Exact' : '—'}
+                      className={`${inputClass} w-full disabled:opacity-40`}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default ComparisonPanel;
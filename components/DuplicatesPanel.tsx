@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Copy } from 'lucide-react';
+import { DuplicateSettings, DuplicateStrategy, IntraFileConflict } from '../types.ts';
+import { DUPLICATE_STRATEGY_LABELS } from '../services/duplicateService.ts';
+import { useScrollWindow, visibleRange } from './useScrollWindow.ts';
+
+interface DuplicatesPanelProps {
+  settings: DuplicateSettings;
+  columns: string[];
+  conflicts: IntraFileConflict[];
+  onChange: (settings: DuplicateSettings) => void;
+  onSelectLoan: (loanId: string) => void;
+}
+
+const ROW_HEIGHT = 45;
+const ROW_OVERSCAN = 10;
+
+const inputClass = 'bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs font-bold text-slate-700 focus:outline-none focus:border-indigo-500';
+
+const DuplicatesPanel: React.FC<DuplicatesPanelProps> = ({ settings, columns, conflicts, onChange, onSelectLoan }) => {
+  const [open, setOpen] = useState(true);
+  const { ref, viewport, onScroll } = useScrollWindow();
+  const range = visibleRange(viewport.top, viewport.height, ROW_HEIGHT, conflicts.length, ROW_OVERSCAN);
+
+  return (
+    <section className="bg-white rounded-3xl border border-amber-200 shadow-sm">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className="w-full flex items-center justify-between px-6 py-5"
+      >
+        <h2 className="text-xs font-black text-slate-900 uppercase tracking-widest flex items-center gap-2">
+          <Copy size={16} className="text-amber-600" /> Duplicate Rows
+        </h2>
+        <div className="flex items-center gap-3">
+          <span className="text-[10px] font-bold text-amber-600 uppercase tracking-widest">{conflicts.length} intra-file conflicts</span>
+          {open ? <ChevronDown size={16} className="text-slate-400" /> : <ChevronRight size={16} className="text-slate-400" />}
+        </div>
+      </button>
+
+      {open && (
+        <div className="border-t border-slate-100 p-6 space-y-5">
+          <div className="flex flex-wrap items-center gap-3">
+            <div className="flex bg-slate-100 p-1 rounded-xl">
+              {(Object.keys(DUPLICATE_STRATEGY_LABELS) as DuplicateStrategy[]).map(strategy => (
+                <button
+                  key={strategy}
+                  onClick={() => onChange({ ...settings, strategy })}
+                  className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${
+                    settings.strategy === strategy ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'
+                  }`}
+                >
+                  {DUPLICATE_STRATEGY_LABELS[strategy]}
+                </button>
+              ))}
+            </div>
+            {settings.strategy === 'sub_records' && (
+              <select
+                value={settings.secondaryColumn}
+                onChange={(e) => onChange({ ...settings, secondaryColumn: e.target.value })}
+                className={`${inputClass} w-56`}
+              >
+                <option value="">Select secondary column</option>
+                {columns.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+            )}
+          </div>
+          <p className="text-xs font-medium text-slate-400">
+            {settings.strategy === 'sub_records'
+              ? 'Each secondary value is tracked as its own sub-record and compared only with itself across files. Rows that still share a loan and secondary value are listed below and the first one is kept.'
+              : 'Duplicate rows within one file are listed below instead of being reported as timeline changes. Only the chosen row takes part in the comparison.'}
+          </p>
+
+          {conflicts.length > 0 && (
+            <div ref={ref} onScroll={onScroll} className="max-h-72 overflow-y-auto custom-scrollbar border border-slate-100 rounded-2xl">
+              <table className="w-full text-left text-xs border-collapse">
+                <thead>
+                  <tr className="bg-slate-50 border-b border-slate-200">
+                    {['Loan', 'File', 'Rows', 'Differing Fields'].map(header => (
+                      <th key={header} className="px-4 py-3 font-black text-slate-400 uppercase tracking-[0.15em] text-[10px] whitespace-nowrap sticky top-0 bg-slate-50 z-10">
+                        {header}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {range.start > 0 && <tr style={{ height: range.start * ROW_HEIGHT }}></tr>}
+                  {conflicts.slice(range.start, range.end).map((conflict, offset) => (
+                    <tr
+                      key={`${conflict.file}-${conflict.loanId}-${range.start + offset}`}
+                      style={{ height: ROW_HEIGHT }}
+                      onClick={() => onSelectLoan(conflict.loanId)}
+                      className="hover:bg-indigo-50/40 transition-colors cursor-pointer"
+                    >
+                      <td className="px-4 whitespace-nowrap font-bold text-slate-700">{conflict.loanId}</td>
+                      <td className="px-4 whitespace-nowrap text-slate-500 font-medium">{conflict.file}</td>
+                      <td className="px-4 whitespace-nowrap font-black text-amber-700">{conflict.rows.length}</td>
+                      <td className="px-4 whitespace-nowrap text-slate-500 font-medium truncate max-w-md" title={conflict.fields.join(', ')}>
+                        {conflict.fields.length > 0 ? conflict.fields.join(', ') : 'Identical rows'}
+                      </td>
+                    </tr>
+                  ))}
+                  {range.end < conflicts.length && <tr style={{ height: (conflicts.length - range.end) * ROW_HEIGHT }}></tr>}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default DuplicatesPanel;
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { AlertCircle, CalendarDays, ChevronDown, ChevronRight, FileSpreadsheet, GripVertical, Stethoscope, Trash2 } from 'lucide-react';
+import { FileData, ParseIssue, ParseSettings, ReconcileSource } from '../types.ts';
+import { RECONCILE_SOURCES } from '../services/reconcileService.ts';
+import { DELIMITER_LABELS, ENCODING_LABELS } from '../services/diagnosticsService.ts';
+import FileDiagnostics from './FileDiagnostics.tsx';
+
+interface FileCardProps {
+  file: FileData;
+  outOfOrder: boolean;
+  duplicateCount: number; // Loans that appear on more than one row of this file
+  issues: ParseIssue[];
+  isDropTarget: boolean;
+  onRemove: () => void;
+  onDateChange: (date: string) => void;
+  onDragStart: () => void;
+  onDragEnter: () => void;
+  onDragEnd: () => void;
+  onDrop: () => void;
+  onSourceChange?: (source: ReconcileSource | undefined) => void; // Shown only while reconciling
+  onParseSettingsChange?: (settings: ParseSettings) => void;
+  onExcludeBadRowsChange: (exclude: boolean) => void;
+}
+
+const SOURCE_LABELS = {
+  filename: 'from name',
+  column: 'from column',
+  manual: 'manual',
+};
+
+const FileCard: React.FC<FileCardProps> = ({
+  file, outOfOrder, duplicateCount, issues, isDropTarget, onRemove, onDateChange, onDragStart, onDragEnter, onDragEnd, onDrop, onSourceChange,
+  onParseSettingsChange, onExcludeBadRowsChange,
+}) => {
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const hasDiagnostics = !!file.diagnostics || issues.length > 0;
+
+  return (
+    <div
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = 'move';
+        onDragStart();
+      }}
+      onDragEnter={onDragEnter}
+      onDragOver={(e) => e.preventDefault()}
+      onDragEnd={onDragEnd}
+      onDrop={(e) => {
+        e.preventDefault();
+        onDrop();
+      }}
+      className={`flex items-center gap-3 bg-slate-50 p-3 rounded-2xl border group transition-colors ${
+        isDropTarget ? 'border-indigo-400 bg-indigo-50/50' : 'border-slate-100'
+      }`}
+    >
+      <div className="cursor-grab active:cursor-grabbing text-slate-300 hover:text-slate-500 transition-colors">
+        <GripVertical size={14} />
+      </div>
+      <div className="p-1.5 bg-white border border-slate-200 rounded-lg text-slate-400 group-hover:text-indigo-600 transition-colors">
+        <FileSpreadsheet size={14} />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="truncate text-xs font-black text-slate-700">{file.name}</p>
+        <p className="text-[10px] text-slate-400 uppercase font-black tracking-tight">{file.data.length} records</p>
+        <div className="flex items-center gap-1.5 mt-1.5">
+          <CalendarDays size={12} className={file.asOfDate ? 'text-indigo-500' : 'text-slate-300'} />
+          <input
+            type="date"
+            value={file.asOfDate ?? ''}
+            onChange={(e) => onDateChange(e.target.value)}
+            className="bg-transparent text-[10px] font-bold text-slate-600 focus:outline-none focus:text-indigo-600"
+            title="As-of date for this snapshot"
+          />
+          {file.asOfSource && (
+            <span className="text-[9px] font-black text-slate-300 uppercase tracking-widest">{SOURCE_LABELS[file.asOfSource]}</span>
+          )}
+        </div>
+        {duplicateCount > 0 && (
+          <p className="flex items-center gap-1 text-[10px] font-bold text-amber-600 mt-1">
+            <AlertCircle size={12} /> {duplicateCount} {duplicateCount === 1 ? 'loan appears' : 'loans appear'} on several rows
+          </p>
+        )}
+        {outOfOrder && (
+          <p className="flex items-center gap-1 text-[10px] font-bold text-amber-600 mt-1">
+            <AlertCircle size={12} /> Placed before an earlier snapshot
+          </p>
+        )}
+        {hasDiagnostics && (
+          <button
+            onClick={() => setShowDiagnostics(prev => !prev)}
+            className={`flex items-center gap-1 text-[10px] font-bold mt-1 ${issues.length > 0 ? 'text-amber-600' : 'text-slate-400 hover:text-slate-600'}`}
+          >
+            {showDiagnostics ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+            <Stethoscope size={12} />
+            {issues.length > 0
+              ? `${issues.length} parse ${issues.length === 1 ? 'issue' : 'issues'}${file.excludeBadRows ? ' (excluded)' : ''}`
+              : file.diagnostics
+                ? `${DELIMITER_LABELS[file.diagnostics.delimiter]} • ${ENCODING_LABELS[file.diagnostics.encoding]}`
+                : 'No parse issues'}
+          </button>
+        )}
+        {showDiagnostics && (
+          <FileDiagnostics
+            file={file}
+            issues={issues}
+            onParseSettingsChange={onParseSettingsChange}
+            onExcludeBadRowsChange={onExcludeBadRowsChange}
+          />
+        )}
+      </div>
+      {onSourceChange && (
+        <div className="flex bg-white border border-slate-200 p-0.5 rounded-lg" title="Reconciliation source">
+          {RECONCILE_SOURCES.map(source => (
+            <button
+              key={source}
+              // Clicking the active source again untags the file
+              onClick={() => onSourceChange(file.source === source ? undefined : source)}
+              className={`w-6 h-6 rounded-md text-[10px] font-black transition-colors ${
+                file.source === source ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-600'
+              }`}
+            >
+              {source}
+            </button>
+          ))}
+        </div>
+      )}
+      <button
+        onClick={onRemove}
+        className="opacity-0 group-hover:opacity-100 p-1.5 text-slate-300 hover:text-rose-500 transition-all"
+      >
+        <Trash2 size={14} />
+      </button>
+    </div>
+  );
+};
+
+export default FileCard;
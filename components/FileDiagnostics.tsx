@@ -0,0 +1,93 @@
+import React from 'react';
+import { CsvDelimiter, FileData, ParseIssue, ParseIssueType, ParseSettings, TextEncoding } from '../types.ts';
+import { displayRow, DELIMITER_LABELS, ENCODING_LABELS, ISSUE_LABELS } from '../services/diagnosticsService.ts';
+
+interface FileDiagnosticsProps {
+  file: FileData;
+  issues: ParseIssue[];
+  onParseSettingsChange?: (settings: ParseSettings) => void; // Absent when the original file is no longer available, e.g. after opening a session
+  onExcludeBadRowsChange: (exclude: boolean) => void;
+}
+
+const MAX_LISTED_ISSUES = 50;
+
+const selectClass = 'w-full bg-white border border-slate-200 rounded-lg px-2 py-1 text-[10px] font-bold text-slate-600 focus:outline-none focus:border-indigo-500 disabled:text-slate-300';
+const labelClass = 'text-[9px] font-black text-slate-400 uppercase tracking-widest block mb-1';
+
+const FileDiagnostics: React.FC<FileDiagnosticsProps> = ({ file, issues, onParseSettingsChange, onExcludeBadRowsChange }) => {
+  const diagnostics = file.diagnostics;
+  const badRows = new Set(issues.map(issue => issue.row)).size;
+  const counts = issues.reduce((acc, issue) => {
+    acc[issue.type] = (acc[issue.type] ?? 0) + 1;
+    return acc;
+  }, {} as Partial<Record<ParseIssueType, number>>);
+
+  return (
+    <div className="mt-2 space-y-3 bg-white border border-slate-100 rounded-xl p-3">
+      {diagnostics && (
+        <div className="grid grid-cols-2 gap-2" title={onParseSettingsChange ? undefined : 'Re-upload the file to change how it is parsed'}>
+          <div>
+            <span className={labelClass}>Delimiter</span>
+            <select
+              value={diagnostics.settings.delimiter ?? ''}
+              onChange={(e) => onParseSettingsChange?.({ ...diagnostics.settings, delimiter: (e.target.value || null) as CsvDelimiter | null })}
+              disabled={!onParseSettingsChange}
+              className={selectClass}
+            >
+              <option value="">Auto ({DELIMITER_LABELS[diagnostics.delimiter]})</option>
+              {(Object.keys(DELIMITER_LABELS) as CsvDelimiter[]).map(d => <option key={d} value={d}>{DELIMITER_LABELS[d]}</option>)}
+            </select>
+          </div>
+          <div>
+            <span className={labelClass}>Encoding</span>
+            <select
+              value={diagnostics.settings.encoding ?? ''}
+              onChange={(e) => onParseSettingsChange?.({ ...diagnostics.settings, encoding: (e.target.value || null) as TextEncoding | null })}
+              disabled={!onParseSettingsChange}
+              className={selectClass}
+            >
+              <option value="">Auto ({ENCODING_LABELS[diagnostics.encoding]})</option>
+              {(Object.keys(ENCODING_LABELS) as TextEncoding[]).map(e => <option key={e} value={e}>{ENCODING_LABELS[e]}</option>)}
+            </select>
+          </div>
+          <p className="col-span-2 text-[10px] font-medium text-slate-400">{diagnostics.columnCount} columns in the header</p>
+        </div>
+      )}
+
+      {issues.length === 0 ? (
+        <p className="text-[10px] font-bold text-emerald-600">No malformed rows, column-count mismatches or blank IDs.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-1.5">
+            {(Object.keys(counts) as ParseIssueType[]).map(type => (
+              <span key={type} className="text-[10px] font-bold bg-amber-50 text-amber-700 border border-amber-200 px-2 py-0.5 rounded-full">
+                {counts[type]} {ISSUE_LABELS[type]}
+              </span>
+            ))}
+          </div>
+          <ul className="max-h-32 overflow-y-auto custom-scrollbar space-y-1">
+            {issues.slice(0, MAX_LISTED_ISSUES).map((issue, i) => (
+              <li key={`${issue.type}-${issue.row}-${i}`} className="text-[10px] text-slate-500 font-medium truncate" title={issue.message}>
+                <span className="font-black text-slate-700">Row {displayRow(issue.row)}</span> • {ISSUE_LABELS[issue.type]} • {issue.message}
+              </li>
+            ))}
+            {issues.length > MAX_LISTED_ISSUES && (
+              <li className="text-[10px] font-bold text-slate-400">…and {issues.length - MAX_LISTED_ISSUES} more</li>
+            )}
+          </ul>
+          <label className="flex items-center gap-2 text-[10px] font-black text-slate-500 uppercase tracking-widest cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!!file.excludeBadRows}
+              onChange={(e) => onExcludeBadRowsChange(e.target.checked)}
+              className="accent-indigo-600"
+            />
+            Exclude {badRows} bad {badRows === 1 ? 'row' : 'rows'} from the audit
+          </label>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FileDiagnostics;
@@ -0,0 +1,127 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowRight, ChevronRight, RotateCcw, UserMinus, UserPlus } from 'lucide-react';
+import { LifecycleEvent, LifecycleEventType } from '../types.ts';
+import { LIFECYCLE_LABELS } from '../services/lifecycleService.ts';
+import { useScrollWindow, visibleRange } from './useScrollWindow.ts';
+
+interface LifecycleViewProps {
+  events: LifecycleEvent[];
+  fileNames: string[]; // Snapshot names in timeline order
+  onSelectLoan: (loanId: string) => void;
+}
+
+const TYPE_STYLES: Record<LifecycleEventType, { badge: string; icon: React.ReactNode }> = {
+  added: { badge: 'bg-emerald-50 text-emerald-700 border-emerald-200', icon: <UserPlus size={12} /> },
+  dropped: { badge: 'bg-rose-50 text-rose-700 border-rose-200', icon: <UserMinus size={12} /> },
+  reappeared: { badge: 'bg-sky-50 text-sky-700 border-sky-200', icon: <RotateCcw size={12} /> },
+};
+
+const ROW_HEIGHT = 53;
+const ROW_OVERSCAN = 10;
+
+const LifecycleView: React.FC<LifecycleViewProps> = ({ events, fileNames, onSelectLoan }) => {
+  const [typeFilter, setTypeFilter] = useState<LifecycleEventType | 'all'>('all');
+  const { ref, viewport, onScroll } = useScrollWindow();
+
+  const transitions = useMemo(() => {
+    return fileNames.slice(1).map((file, i) => {
+      const counts: Record<LifecycleEventType, number> = { added: 0, dropped: 0, reappeared: 0 };
+      events.forEach(e => {
+        if (e.file === file) counts[e.type]++;
+      });
+      return { from: fileNames[i], to: file, counts };
+    });
+  }, [events, fileNames]);
+
+  const visible = useMemo(() => {
+    return typeFilter === 'all' ? events : events.filter(e => e.type === typeFilter);
+  }, [events, typeFilter]);
+
+  const totals = useMemo(() => {
+    const counts: Record<LifecycleEventType, number> = { added: 0, dropped: 0, reappeared: 0 };
+    events.forEach(e => counts[e.type]++);
+    return counts;
+  }, [events]);
+
+  const range = visibleRange(viewport.top, viewport.height, ROW_HEIGHT, visible.length, ROW_OVERSCAN);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+        {transitions.map(t => (
+          <div key={`${t.from}-${t.to}`} className="bg-white rounded-2xl border border-slate-200 p-4 shadow-sm">
+            <div className="flex items-center gap-2 text-[10px] font-bold text-slate-500 min-w-0">
+              <span className="truncate">{t.from}</span>
+              <ArrowRight size={12} className="shrink-0 text-slate-300" />
+              <span className="truncate text-slate-700">{t.to}</span>
+            </div>
+            <div className="flex gap-2 mt-3">
+              {(Object.keys(LIFECYCLE_LABELS) as LifecycleEventType[]).map(type => (
+                <span key={type} className={`flex items-center gap-1 text-[10px] font-black border px-2 py-0.5 rounded-full ${TYPE_STYLES[type].badge}`}>
+                  {TYPE_STYLES[type].icon} {t.counts[type]} {LIFECYCLE_LABELS[type]}
+                </span>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-[2rem] border border-slate-200 shadow-2xl overflow-hidden">
+        <div className="flex items-center gap-2 px-8 py-4 border-b border-slate-100">
+          {(['all', 'added', 'dropped', 'reappeared'] as const).map(type => (
+            <button
+              key={type}
+              onClick={() => setTypeFilter(type)}
+              className={`text-[10px] font-black uppercase tracking-widest px-3 py-1.5 rounded-full transition-colors ${
+                typeFilter === type ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-600 bg-slate-50'
+              }`}
+            >
+              {type === 'all' ? `All (${events.length})` : `${LIFECYCLE_LABELS[type]} (${totals[type]})`}
+            </button>
+          ))}
+        </div>
+        <div ref={ref} onScroll={onScroll} className="overflow-x-auto max-h-[600px] overflow-y-auto custom-scrollbar">
+          <table className="w-full text-left text-sm border-collapse">
+            <thead>
+              <tr className="bg-slate-50 border-b border-slate-200">
+                {['Loan', 'Event', 'Snapshot', 'Previous Snapshot', 'Last Seen'].map(header => (
+                  <th key={header} className="px-8 py-5 font-black text-slate-400 uppercase tracking-[0.15em] text-[10px] whitespace-nowrap sticky top-0 bg-slate-50 z-20">
+                    {header}
+                  </th>
+                ))}
+                <th className="sticky top-0 bg-slate-50 z-20"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {range.start > 0 && <tr style={{ height: range.start * ROW_HEIGHT }}></tr>}
+              {visible.slice(range.start, range.end).map((event, offset) => (
+                <tr
+                  key={`${event.loanId}-${event.file}-${range.start + offset}`}
+                  style={{ height: ROW_HEIGHT }}
+                  onClick={() => onSelectLoan(event.loanId)}
+                  className="hover:bg-indigo-50/40 transition-colors cursor-pointer group"
+                >
+                  <td className="px-8 py-4 whitespace-nowrap font-bold text-slate-700">{event.loanId}</td>
+                  <td className="px-8 py-4 whitespace-nowrap">
+                    <span className={`inline-flex items-center gap-1 text-[10px] font-black border px-2 py-0.5 rounded-full ${TYPE_STYLES[event.type].badge}`}>
+                      {TYPE_STYLES[event.type].icon} {LIFECYCLE_LABELS[event.type]}
+                    </span>
+                  </td>
+                  <td className="px-8 py-4 whitespace-nowrap text-slate-600 font-medium text-xs">{event.file}</td>
+                  <td className="px-8 py-4 whitespace-nowrap text-slate-400 font-medium text-xs">{event.previousFile}</td>
+                  <td className="px-8 py-4 whitespace-nowrap text-slate-400 font-medium text-xs">{event.lastSeenFile ?? ''}</td>
+                  <td className="px-4 py-4 text-slate-300 group-hover:text-indigo-600 transition-colors">
+                    <ChevronRight size={16} />
+                  </td>
+                </tr>
+              ))}
+              {range.end < visible.length && <tr style={{ height: (visible.length - range.end) * ROW_HEIGHT }}></tr>}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LifecycleView;
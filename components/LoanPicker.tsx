@@ -0,0 +1,57 @@
+import React from 'react';
+import { ChevronRight } from 'lucide-react';
+import { SearchMatch } from '../types.ts';
+import { MAX_SEARCH_MATCHES } from '../services/searchService.ts';
+
+interface LoanPickerProps {
+  matches: SearchMatch[];
+  onSelectLoan: (loanId: string) => void;
+}
+
+const LoanPicker: React.FC<LoanPickerProps> = ({ matches, onSelectLoan }) => {
+  const truncated = matches.length > MAX_SEARCH_MATCHES;
+  const shown = truncated ? matches.slice(0, MAX_SEARCH_MATCHES) : matches;
+
+  return (
+    <div className="bg-white rounded-[2rem] border border-slate-200 shadow-2xl overflow-hidden">
+      {truncated && (
+        <p className="px-8 py-3 border-b border-slate-100 text-[10px] font-bold text-amber-600 uppercase tracking-widest">
+          More than {MAX_SEARCH_MATCHES} loans match. Refine the search to narrow the list.
+        </p>
+      )}
+      <div className="overflow-x-auto max-h-[480px] overflow-y-auto custom-scrollbar">
+        <table className="w-full text-left text-sm border-collapse">
+          <thead>
+            <tr className="bg-slate-50 border-b border-slate-200">
+              {['Loan', 'Matched Field', 'Matched Value', 'Versions'].map(header => (
+                <th key={header} className="px-8 py-5 font-black text-slate-400 uppercase tracking-[0.15em] text-[10px] whitespace-nowrap sticky top-0 bg-slate-50 z-20">
+                  {header}
+                </th>
+              ))}
+              <th className="sticky top-0 bg-slate-50 z-20"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {shown.map(match => (
+              <tr
+                key={match.loanId}
+                onClick={() => onSelectLoan(match.loanId)}
+                className="hover:bg-indigo-50/40 transition-colors cursor-pointer group"
+              >
+                <td className="px-8 py-4 whitespace-nowrap font-bold text-slate-700">{match.loanId}</td>
+                <td className="px-8 py-4 whitespace-nowrap text-slate-400 font-bold text-xs">{match.field}</td>
+                <td className="px-8 py-4 whitespace-nowrap text-slate-600 font-medium">{match.value}</td>
+                <td className="px-8 py-4 whitespace-nowrap text-slate-600 font-medium">{match.versions}</td>
+                <td className="px-4 py-4 text-slate-300 group-hover:text-indigo-600 transition-colors">
+                  <ChevronRight size={16} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default LoanPicker;
@@ -0,0 +1,27 @@
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+
+interface ParseProgressProps {
+  progress: Record<string, number>; // File name -> fraction parsed, 0 to 1
+}
+
+const ParseProgress: React.FC<ParseProgressProps> = ({ progress }) => {
+  return (
+    <div className="space-y-2">
+      {Object.keys(progress).map(name => (
+        <div key={name} className="bg-slate-50 p-3 rounded-2xl border border-slate-100">
+          <div className="flex items-center gap-2">
+            <Loader2 size={12} className={progress[name] < 1 ? 'animate-spin text-indigo-500' : 'text-emerald-500'} />
+            <p className="flex-1 truncate text-xs font-black text-slate-700">{name}</p>
+            <span className="text-[10px] font-black text-slate-400">{Math.round(progress[name] * 100)}%</span>
+          </div>
+          <div className="h-1 bg-slate-200 rounded-full mt-2 overflow-hidden">
+            <div className="h-full bg-indigo-500 transition-all" style={{ width: `${progress[name] * 100}%` }}></div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ParseProgress;
@@ -0,0 +1,143 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown, ChevronRight } from 'lucide-react';
+import { LoanSummary, Severity } from '../types.ts';
+import { higherSeverity } from '../services/rulesService.ts';
+import { SEVERITY_STYLES } from './RulesPanel.tsx';
+import { useScrollWindow, visibleRange } from './useScrollWindow.ts';
+
+type SortKey = 'loanId' | 'versions' | 'changeCount' | 'exceptions' | 'changedFields';
+
+interface PortfolioTableProps {
+  summaries: LoanSummary[];
+  onSelectLoan: (loanId: string) => void;
+}
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'loanId', label: 'Loan' },
+  { key: 'versions', label: 'Versions' },
+  { key: 'changeCount', label: 'Changes' },
+  { key: 'exceptions', label: 'Exceptions' },
+  { key: 'changedFields', label: 'Changed Fields' },
+];
+
+const ROW_HEIGHT = 57;
+const ROW_OVERSCAN = 10;
+
+const topSeverity = (summary: LoanSummary): Severity | null => {
+  return summary.exceptions.reduce<Severity | null>((top, hit) => (top ? higherSeverity(top, hit.severity) : hit.severity), null);
+};
+
+const PortfolioTable: React.FC<PortfolioTableProps> = ({ summaries, onSelectLoan }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('changeCount');
+  const [sortAsc, setSortAsc] = useState(false);
+  const [changedOnly, setChangedOnly] = useState(true);
+  const { ref, viewport, onScroll } = useScrollWindow();
+
+  const sorted = useMemo(() => {
+    const rows = changedOnly ? summaries.filter(s => s.changeCount > 0) : [...summaries];
+    const direction = sortAsc ? 1 : -1;
+    return rows.sort((a, b) => {
+      switch (sortKey) {
+        case 'loanId':
+          return direction * a.loanId.localeCompare(b.loanId, undefined, { numeric: true });
+        case 'changedFields':
+          return direction * (a.changedFields.length - b.changedFields.length);
+        case 'exceptions':
+          return direction * (a.exceptions.length - b.exceptions.length);
+        default:
+          return direction * (a[sortKey] - b[sortKey]);
+      }
+    });
+  }, [summaries, sortKey, sortAsc, changedOnly]);
+
+  const range = visibleRange(viewport.top, viewport.height, ROW_HEIGHT, sorted.length, ROW_OVERSCAN);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAsc(prev => !prev);
+    } else {
+      setSortKey(key);
+      setSortAsc(key === 'loanId');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-[2rem] border border-slate-200 shadow-2xl overflow-hidden">
+      <div className="flex items-center justify-between px-8 py-4 border-b border-slate-100">
+        <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">
+          {sorted.length} of {summaries.length} loans shown
+        </p>
+        <label className="flex items-center gap-2 text-[10px] font-black text-slate-500 uppercase tracking-widest cursor-pointer">
+          <input
+            type="checkbox"
+            checked={changedOnly}
+            onChange={(e) => setChangedOnly(e.target.checked)}
+            className="accent-indigo-600"
+          />
+          Changed loans only
+        </label>
+      </div>
+      <div ref={ref} onScroll={onScroll} className="overflow-x-auto max-h-[600px] overflow-y-auto custom-scrollbar">
+        <table className="w-full text-left text-sm border-collapse">
+          <thead>
+            <tr className="bg-slate-50 border-b border-slate-200">
+              {COLUMNS.map(({ key, label }) => (
+                <th key={key} className="px-8 py-5 sticky top-0 bg-slate-50 z-20 border-r border-slate-100 last:border-0">
+                  <button
+                    onClick={() => handleSort(key)}
+                    className="flex items-center gap-2 font-black text-slate-400 hover:text-indigo-600 uppercase tracking-[0.15em] text-[10px] whitespace-nowrap transition-colors"
+                  >
+                    {label}
+                    {sortKey !== key ? <ArrowUpDown size={12} /> : sortAsc ? <ArrowUp size={12} /> : <ArrowDown size={12} />}
+                  </button>
+                </th>
+              ))}
+              <th className="sticky top-0 bg-slate-50 z-20"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {range.start > 0 && <tr style={{ height: range.start * ROW_HEIGHT }}></tr>}
+            {sorted.slice(range.start, range.end).map((summary) => (
+              <tr
+                key={summary.loanId}
+                style={{ height: ROW_HEIGHT }}
+                onClick={() => onSelectLoan(summary.loanId)}
+                className="hover:bg-indigo-50/40 transition-colors cursor-pointer group"
+              >
+                <td className="px-8 py-4 whitespace-nowrap font-bold text-slate-700">{summary.loanId}</td>
+                <td className="px-8 py-4 whitespace-nowrap text-slate-600 font-medium">{summary.versions}</td>
+                <td className="px-8 py-4 whitespace-nowrap">
+                  <span className={`font-black ${summary.changeCount > 0 ? 'text-yellow-900' : 'text-slate-300'}`}>
+                    {summary.changeCount}
+                  </span>
+                </td>
+                <td className="px-8 py-4 whitespace-nowrap">
+                  {summary.exceptions.length > 0 && (
+                    <span className={`text-[10px] font-black border px-2 py-0.5 rounded-full uppercase ${SEVERITY_STYLES[topSeverity(summary)!].badge}`}>
+                      {summary.exceptions.length} • {topSeverity(summary)}
+                    </span>
+                  )}
+                </td>
+                <td className="px-8 py-4" title={summary.changedFields.join(', ')}>
+                  <div className="flex gap-1.5 overflow-hidden max-w-xl">
+                    {summary.changedFields.map(field => (
+                      <span key={field} className="text-[10px] font-bold bg-yellow-50 text-yellow-900 border border-yellow-200 px-2 py-0.5 rounded-full whitespace-nowrap">
+                        {field}
+                      </span>
+                    ))}
+                  </div>
+                </td>
+                <td className="px-4 py-4 text-slate-300 group-hover:text-indigo-600 transition-colors">
+                  <ChevronRight size={16} />
+                </td>
+              </tr>
+            ))}
+            {range.end < sorted.length && <tr style={{ height: (sorted.length - range.end) * ROW_HEIGHT }}></tr>}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default PortfolioTable;
@@ -0,0 +1,115 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowRight, ChevronRight } from 'lucide-react';
+import { ReconcileReport, ReconcileStatus } from '../types.ts';
+import { countByStatus, RECONCILE_STATUS_LABELS } from '../services/reconcileService.ts';
+import { useScrollWindow, visibleRange } from './useScrollWindow.ts';
+
+interface ReconcileViewProps {
+  report: ReconcileReport;
+  onSelectLoan: (loanId: string) => void;
+}
+
+type StatusFilter = 'all' | ReconcileStatus;
+
+const ROW_HEIGHT = 57;
+const ROW_OVERSCAN = 10;
+
+const STATUS_BADGES: Record<ReconcileStatus, string> = {
+  mismatched: 'text-amber-700',
+  only_a: 'text-rose-600',
+  only_b: 'text-rose-600',
+  matched: 'text-emerald-700',
+};
+
+const displayValue = (value: unknown) => {
+  const text = String(value ?? '').trim();
+  return text === '' ? '(blank)' : text;
+};
+
+const ReconcileView: React.FC<ReconcileViewProps> = ({ report, onSelectLoan }) => {
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('mismatched');
+  const { ref, viewport, onScroll } = useScrollWindow();
+
+  const counts = useMemo(() => countByStatus(report), [report]);
+  const visible = useMemo(
+    () => (statusFilter === 'all' ? report.entries : report.entries.filter(e => e.status === statusFilter)),
+    [report, statusFilter],
+  );
+  const range = visibleRange(viewport.top, viewport.height, ROW_HEIGHT, visible.length, ROW_OVERSCAN);
+
+  return (
+    <div className="bg-white rounded-[2rem] border border-slate-200 shadow-2xl overflow-hidden">
+      <div className="flex flex-wrap items-center gap-2 px-8 py-4 border-b border-slate-100">
+        {([
+          { key: 'all', label: `All (${report.entries.length})` },
+          ...(Object.keys(RECONCILE_STATUS_LABELS) as ReconcileStatus[]).map(status => ({
+            key: status,
+            label: `${RECONCILE_STATUS_LABELS[status]} (${counts[status]})`,
+          })),
+        ] as { key: StatusFilter; label: string }[]).map(({ key, label }) => (
+          <button
+            key={key}
+            onClick={() => setStatusFilter(key)}
+            className={`text-[10px] font-black uppercase tracking-widest px-3 py-1.5 rounded-full transition-colors ${
+              statusFilter === key ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-600 bg-slate-50'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+        <span className="ml-auto text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+          {report.columns.length} shared columns compared
+        </span>
+      </div>
+      <div ref={ref} onScroll={onScroll} className="overflow-x-auto max-h-[600px] overflow-y-auto custom-scrollbar">
+        <table className="w-full text-left text-sm border-collapse">
+          <thead>
+            <tr className="bg-slate-50 border-b border-slate-200">
+              {['Loan', 'Status', 'Mismatched Fields (A → B)'].map(header => (
+                <th key={header} className="px-8 py-5 font-black text-slate-400 uppercase tracking-[0.15em] text-[10px] whitespace-nowrap sticky top-0 bg-slate-50 z-20">
+                  {header}
+                </th>
+              ))}
+              <th className="sticky top-0 bg-slate-50 z-20"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {range.start > 0 && <tr style={{ height: range.start * ROW_HEIGHT }}></tr>}
+            {visible.slice(range.start, range.end).map(entry => (
+              <tr
+                key={`${entry.status}-${entry.loanId}`}
+                style={{ height: ROW_HEIGHT }}
+                onClick={() => onSelectLoan(entry.loanId)}
+                className={`transition-colors cursor-pointer group hover:bg-indigo-50/40 ${entry.status === 'only_a' || entry.status === 'only_b' ? 'bg-rose-50/30' : ''}`}
+              >
+                <td className="px-8 whitespace-nowrap font-bold text-slate-700">{entry.loanId}</td>
+                <td className={`px-8 whitespace-nowrap text-[10px] font-black uppercase ${STATUS_BADGES[entry.status]}`}>
+                  {RECONCILE_STATUS_LABELS[entry.status]}
+                </td>
+                <td className="px-8">
+                  <div className="flex gap-1.5 overflow-hidden max-w-3xl">
+                    {entry.mismatches.map(field => (
+                      <span
+                        key={field}
+                        title={`${field}: ${displayValue(entry.rowA?.[field])} → ${displayValue(entry.rowB?.[field])}`}
+                        className="flex items-center gap-1 text-[10px] font-bold bg-yellow-50 text-yellow-900 border border-yellow-200 px-2 py-0.5 rounded-full whitespace-nowrap"
+                      >
+                        {field}: {displayValue(entry.rowA?.[field])} <ArrowRight size={10} /> {displayValue(entry.rowB?.[field])}
+                      </span>
+                    ))}
+                  </div>
+                </td>
+                <td className="px-4 text-slate-300 group-hover:text-indigo-600 transition-colors">
+                  <ChevronRight size={16} />
+                </td>
+              </tr>
+            ))}
+            {range.end < visible.length && <tr style={{ height: (visible.length - range.end) * ROW_HEIGHT }}></tr>}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ReconcileView;
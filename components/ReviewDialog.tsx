@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { ArrowRight, CheckCircle2, Flag, Trash2, X, XCircle } from 'lucide-react';
+import { AuditResult, ReviewEntry, ReviewStatus } from '../types.ts';
+import {
+  loadReviewerName, reviewTarget, saveReviewerName, ReviewTarget, REVIEW_STATUS_LABELS, VERSION_REVIEW,
+} from '../services/reviewService.ts';
+
+interface ReviewDialogProps {
+  item: AuditResult;
+  field: string; // VERSION_REVIEW signs off every change in the version
+  idKey: string;
+  subKey: string;
+  onSave: (entry: ReviewEntry) => void;
+  onClear: (target: ReviewTarget) => void;
+  onClose: () => void;
+}
+
+export const REVIEW_STYLES: Record<ReviewStatus, { badge: string; text: string; icon: React.ReactNode }> = {
+  approved: { badge: 'bg-emerald-50 text-emerald-700 border-emerald-200', text: 'text-emerald-600', icon: <CheckCircle2 size={12} /> },
+  follow_up: { badge: 'bg-blue-50 text-blue-700 border-blue-200', text: 'text-blue-600', icon: <Flag size={12} /> },
+  error: { badge: 'bg-fuchsia-50 text-fuchsia-700 border-fuchsia-200', text: 'text-fuchsia-600', icon: <XCircle size={12} /> },
+};
+
+const inputClass = 'w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2.5 text-xs font-bold text-slate-700 focus:outline-none focus:border-indigo-500';
+const labelClass = 'text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2';
+
+const displayValue = (value: unknown) => {
+  const text = String(value ?? '');
+  return text === '' ? '(blank)' : text;
+};
+
+const ReviewDialog: React.FC<ReviewDialogProps> = ({ item, field, idKey, subKey, onSave, onClear, onClose }) => {
+  const existing = item.reviews?.[field];
+  const [status, setStatus] = useState<ReviewStatus>(existing?.status ?? 'approved');
+  const [reviewer, setReviewer] = useState(existing?.reviewer ?? loadReviewerName);
+  const [comment, setComment] = useState(existing?.comment ?? '');
+
+  const target = reviewTarget(item.row, idKey, subKey, field);
+  const isVersion = field === VERSION_REVIEW;
+
+  const handleSave = () => {
+    saveReviewerName(reviewer.trim());
+    onSave({ ...target, status, reviewer: reviewer.trim(), comment: comment.trim(), reviewedAt: new Date().toISOString() });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-6">
+      <div className="bg-white rounded-3xl border border-slate-200 shadow-2xl w-full max-w-lg overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+        <div className="flex items-center justify-between px-6 py-5 border-b border-slate-100">
+          <div className="min-w-0">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+              {isVersion ? 'Review Whole Version' : 'Review Change'}
+            </p>
+            <p className="text-xs font-medium text-slate-500 mt-1 truncate">
+              Loan {target.loanId} • {target.file}{target.subRecord && ` • ${subKey} ${target.subRecord}`}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1.5 text-slate-300 hover:text-rose-500 transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          {isVersion ? (
+            <p className="text-xs font-medium text-slate-500">
+              Applies to all {item.changes.size} changed {item.changes.size === 1 ? 'field' : 'fields'} in this version unless a field has its own review:{' '}
+              <span className="font-bold text-slate-700">{Array.from(item.changes).join(', ')}</span>
+            </p>
+          ) : (
+            <div className="flex flex-wrap items-center gap-2 bg-slate-50 p-3 rounded-2xl border border-slate-100 text-xs">
+              <span className="font-black text-slate-700">{field}</span>
+              <span className="font-medium text-slate-400">{displayValue(item.previous?.[field])}</span>
+              <ArrowRight size={12} className="text-slate-300" />
+              <span className="font-bold text-slate-700">{displayValue(item.row[field])}</span>
+            </div>
+          )}
+
+          <div>
+            <span className={labelClass}>Status</span>
+            <div className="flex bg-slate-100 p-1 rounded-xl">
+              {(Object.keys(REVIEW_STATUS_LABELS) as ReviewStatus[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setStatus(option)}
+                  className={`flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${
+                    status === option ? `bg-white shadow-sm ${REVIEW_STYLES[option].text}` : 'text-slate-400 hover:text-slate-600'
+                  }`}
+                >
+                  {REVIEW_STYLES[option].icon} {REVIEW_STATUS_LABELS[option]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <span className={labelClass}>Reviewer</span>
+            <input value={reviewer} onChange={(e) => setReviewer(e.target.value)} placeholder="Your name" className={inputClass} />
+          </div>
+
+          <div>
+            <span className={labelClass}>Comment</span>
+            <textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={3}
+              placeholder="Optional note for the review log"
+              className={`${inputClass} resize-none`}
+            />
+          </div>
+
+          {existing && (
+            <p className="text-[10px] font-medium text-slate-400">
+              Last reviewed {new Date(existing.reviewedAt).toLocaleString()} by {existing.reviewer || 'unknown'}
+            </p>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between px-6 py-4 border-t border-slate-100 bg-slate-50">
+          {existing ? (
+            <button
+              onClick={() => onClear(target)}
+              className="flex items-center gap-1.5 text-[10px] font-bold text-slate-400 hover:text-rose-600 uppercase tracking-widest"
+            >
+              <Trash2 size={12} /> Clear Review
+            </button>
+          ) : <span />}
+          <div className="flex items-center gap-2">
+            <button onClick={onClose} className="text-[10px] font-bold text-slate-400 hover:text-slate-600 uppercase tracking-widest px-3 py-2">
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!reviewer.trim()}
+              className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white px-4 py-2.5 rounded-xl font-bold text-xs transition-colors"
+            >
+              Save Review
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewDialog;
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Plus, ShieldAlert, X } from 'lucide-react';
+import { FieldRule, RuleCondition, Severity } from '../types.ts';
+import { CONDITION_LABELS, SEVERITY_ORDER } from '../services/rulesService.ts';
+
+interface RulesPanelProps {
+  rules: FieldRule[];
+  columns: string[];
+  onChange: (rules: FieldRule[]) => void;
+}
+
+// Cell and badge classes per severity, shared with the change timeline
+export const SEVERITY_STYLES: Record<Severity, { cell: string; dot: string; badge: string }> = {
+  critical: {
+    cell: 'bg-rose-50 font-black text-rose-900 shadow-[inset_0_0_0_1px_rgba(244,63,94,0.25)]',
+    dot: 'bg-rose-500',
+    badge: 'bg-rose-50 text-rose-700 border-rose-200',
+  },
+  major: {
+    cell: 'bg-orange-50 font-black text-orange-900 shadow-[inset_0_0_0_1px_rgba(249,115,22,0.2)]',
+    dot: 'bg-orange-400',
+    badge: 'bg-orange-50 text-orange-700 border-orange-200',
+  },
+  minor: {
+    cell: 'bg-yellow-50/70 font-black text-yellow-900 shadow-[inset_0_0_0_1px_rgba(251,191,36,0.15)]',
+    dot: 'bg-yellow-400',
+    badge: 'bg-yellow-50 text-yellow-800 border-yellow-200',
+  },
+  noise: {
+    cell: 'text-slate-500 font-medium',
+    dot: 'bg-slate-300',
+    badge: 'bg-slate-50 text-slate-500 border-slate-200',
+  },
+};
+
+const inputClass = 'bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-xs font-bold text-slate-700 focus:outline-none focus:border-indigo-500';
+
+const RulesPanel: React.FC<RulesPanelProps> = ({ rules, columns, onChange }) => {
+  const [open, setOpen] = useState(false);
+
+  const updateRule = (id: string, patch: Partial<FieldRule>) => {
+    onChange(rules.map(r => (r.id === id ? { ...r, ...patch } : r)));
+  };
+
+  const addRule = () => {
+    onChange([...rules, { id: crypto.randomUUID(), field: columns[0] ?? '', condition: 'any_change', severity: 'critical' }]);
+  };
+
+  return (
+    <section className="bg-white rounded-3xl border border-slate-200 shadow-sm">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className="w-full flex items-center justify-between px-6 py-5"
+      >
+        <h2 className="text-xs font-black text-slate-900 uppercase tracking-widest flex items-center gap-2">
+          <ShieldAlert size={16} className="text-indigo-600" /> Change Rules
+        </h2>
+        <div className="flex items-center gap-3">
+          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{rules.length} rules</span>
+          {open ? <ChevronDown size={16} className="text-slate-400" /> : <ChevronRight size={16} className="text-slate-400" />}
+        </div>
+      </button>
+
+      {open && (
+        <div className="border-t border-slate-100 p-6 space-y-3">
+          {rules.length === 0 && (
+            <p className="text-xs font-medium text-slate-400">
+              No rules defined. Every change is reported as <span className="font-black text-yellow-700">minor</span>.
+            </p>
+          )}
+          {rules.map(rule => (
+            <div key={rule.id} className="flex flex-wrap items-center gap-2">
+              <select value={rule.field} onChange={(e) => updateRule(rule.id, { field: e.target.value })} className={`${inputClass} w-56`}>
+                {!columns.includes(rule.field) && <option value={rule.field}>{rule.field || 'Select field'}</option>}
+                {columns.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+              <select
+                value={rule.condition}
+                onChange={(e) => updateRule(rule.id, { condition: e.target.value as RuleCondition })}
+                className={`${inputClass} w-60`}
+              >
+                {(Object.keys(CONDITION_LABELS) as RuleCondition[]).map(c => (
+                  <option key={c} value={c}>{CONDITION_LABELS[c]}</option>
+                ))}
+              </select>
+              {(rule.condition === 'increase_pct' || rule.condition === 'decrease_pct') && (
+                <div className="flex items-center gap-1.5">
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    defaultValue={rule.threshold ?? ''}
+                    onChange={(e) => updateRule(rule.id, { threshold: Number(e.target.value) || 0 })}
+                    placeholder="0"
+                    className={`${inputClass} w-24`}
+                  />
+                  <span className="text-[10px] font-black text-slate-300">%</span>
+                </div>
+              )}
+              {rule.condition === 'not_in_list' && (
+                <input
+                  value={(rule.allowedValues ?? []).join(',')}
+                  onChange={(e) => updateRule(rule.id, { allowedValues: e.target.value.split(',') })}
+                  placeholder="Allowed values, comma separated"
+                  className={`${inputClass} flex-1 min-w-[180px]`}
+                />
+              )}
+              <select
+                value={rule.severity}
+                onChange={(e) => updateRule(rule.id, { severity: e.target.value as Severity })}
+                className={`${inputClass} w-32 border ${SEVERITY_STYLES[rule.severity].badge}`}
+              >
+                {SEVERITY_ORDER.map(s => <option key={s} value={s}>{s}</option>)}
+              </select>
+              <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} className="p-1.5 text-slate-300 hover:text-rose-500 transition-colors">
+                <X size={14} />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={addRule}
+            disabled={columns.length === 0}
+            className="flex items-center gap-1 text-[10px] font-bold text-indigo-600 hover:text-indigo-800 disabled:text-slate-300 uppercase tracking-widest pt-2"
+          >
+            <Plus size={12} /> Add Rule
+          </button>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default RulesPanel;
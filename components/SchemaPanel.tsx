@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { ArrowRight, Check, ChevronDown, ChevronRight, Minus, Plus, TableProperties, Wand2 } from 'lucide-react';
+import { RenameSuggestion, SchemaReport } from '../types.ts';
+
+interface SchemaPanelProps {
+  report: SchemaReport;
+  onAcceptRename: (rename: RenameSuggestion) => void;
+}
+
+const percent = (value: number | null) => (value === null ? 'n/a' : `${Math.round(value * 100)}%`);
+
+const SchemaPanel: React.FC<SchemaPanelProps> = ({ report, onAcceptRename }) => {
+  const [open, setOpen] = useState(false);
+  const [driftOnly, setDriftOnly] = useState(true);
+
+  const columns = driftOnly ? report.columns.filter(c => c.presence.some(p => !p)) : report.columns;
+
+  return (
+    <section className="bg-white rounded-3xl border border-slate-200 shadow-sm">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className="w-full flex items-center justify-between px-6 py-5"
+      >
+        <h2 className="text-xs font-black text-slate-900 uppercase tracking-widest flex items-center gap-2">
+          <TableProperties size={16} className="text-indigo-600" /> Schema Drift
+        </h2>
+        <div className="flex items-center gap-3">
+          <span className="text-[10px] font-bold text-amber-600 uppercase tracking-widest">
+            {report.events.length} column events • {report.renames.length} possible renames
+          </span>
+          {open ? <ChevronDown size={16} className="text-slate-400" /> : <ChevronRight size={16} className="text-slate-400" />}
+        </div>
+      </button>
+
+      {open && (
+        <div className="border-t border-slate-100 p-6 space-y-8">
+          {report.renames.length > 0 && (
+            <div className="space-y-2">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">Suggested Renames</span>
+              {report.renames.map(rename => (
+                <div key={`${rename.file}-${rename.from}`} className="flex flex-wrap items-center gap-3 bg-slate-50 p-3 rounded-2xl border border-slate-100">
+                  <span className="text-xs font-black text-slate-500 line-through decoration-slate-300">{rename.from}</span>
+                  <ArrowRight size={12} className="text-slate-300" />
+                  <span className="text-xs font-black text-slate-700">{rename.to}</span>
+                  <span className="text-[10px] font-bold text-slate-400 truncate max-w-xs" title={rename.file}>in {rename.file}</span>
+                  <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                    Name {percent(rename.nameSimilarity)} • Values {percent(rename.valueMatch)}
+                  </span>
+                  <button
+                    onClick={() => onAcceptRename(rename)}
+                    className="ml-auto flex items-center gap-1 text-[10px] font-bold text-indigo-600 hover:text-indigo-800 uppercase tracking-widest"
+                  >
+                    <Wand2 size={12} /> Map as Alias
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">Schema Events</span>
+            <div className="flex flex-wrap gap-1.5">
+              {report.events.map(event => (
+                <span
+                  key={`${event.file}-${event.type}-${event.column}`}
+                  title={`${event.type === 'added' ? 'Appears' : 'Disappears'} in ${event.file} (after ${event.previousFile})`}
+                  className={`flex items-center gap-1 text-[10px] font-bold border px-2 py-0.5 rounded-full ${
+                    event.type === 'added' ? 'bg-emerald-50 text-emerald-700 border-emerald-200' : 'bg-rose-50 text-rose-700 border-rose-200'
+                  }`}
+                >
+                  {event.type === 'added' ? <Plus size={10} /> : <Minus size={10} />} {event.column}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Column Presence</span>
+              <label className="flex items-center gap-2 text-[10px] font-black text-slate-500 uppercase tracking-widest cursor-pointer">
+                <input type="checkbox" checked={driftOnly} onChange={(e) => setDriftOnly(e.target.checked)} className="accent-indigo-600" />
+                Drifting columns only
+              </label>
+            </div>
+            <div className="overflow-auto max-h-96 custom-scrollbar border border-slate-100 rounded-2xl">
+              <table className="text-left text-xs border-collapse">
+                <thead>
+                  <tr className="bg-slate-50 border-b border-slate-200">
+                    <th className="px-4 py-3 font-black text-slate-400 uppercase tracking-[0.15em] text-[10px] whitespace-nowrap sticky top-0 left-0 bg-slate-50 z-20">Column</th>
+                    {report.files.map(file => (
+                      <th key={file} title={file} className="px-3 py-3 font-bold text-slate-400 text-[10px] whitespace-nowrap sticky top-0 bg-slate-50 z-10 max-w-[140px] truncate">
+                        {file}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {columns.map(column => (
+                    <tr key={column.name}>
+                      <td className="px-4 py-2 whitespace-nowrap font-bold text-slate-700 sticky left-0 bg-white">{column.name}</td>
+                      {column.presence.map((present, i) => (
+                        <td key={report.files[i]} className={`px-3 py-2 text-center ${present ? 'text-emerald-600' : 'bg-rose-50/60 text-rose-300'}`}>
+                          {present ? <Check size={12} className="inline" /> : <Minus size={12} className="inline" />}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default SchemaPanel;
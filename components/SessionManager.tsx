@@ -0,0 +1,165 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, Download, FolderOpen, Save, Trash2, Upload, X } from 'lucide-react';
+import { AuditSession, SessionSummary } from '../types.ts';
+import {
+  deleteSession, exportSessionFile, importSessionFile, listSessions, loadSession, saveSession,
+} from '../services/sessionService.ts';
+
+interface SessionManagerProps {
+  activeName: string;
+  buildSession: (name: string) => AuditSession | null; // Null when there is nothing to save
+  onOpen: (session: AuditSession) => void;
+  onSaved: (session: AuditSession) => void;
+  onClose: () => void;
+}
+
+const SessionManager: React.FC<SessionManagerProps> = ({ activeName, buildSession, onOpen, onSaved, onClose }) => {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [name, setName] = useState(activeName);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(() => {
+    listSessions().then(setSessions).catch(err => {
+      console.error("Error listing sessions:", err);
+      setError('Saved sessions could not be read from browser storage.');
+    });
+  }, []);
+
+  useEffect(refresh, [refresh]);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error(failure, err);
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = () => run(async () => {
+    const session = buildSession(name.trim());
+    if (!session) return;
+    await saveSession(session);
+    onSaved(session);
+    refresh();
+  }, 'Session could not be saved.');
+
+  const handleOpen = (id: string) => run(async () => {
+    const session = await loadSession(id);
+    if (!session) throw new Error('Session no longer exists.');
+    onOpen(session);
+  }, 'Session could not be opened.');
+
+  const handleExportSaved = (id: string) => run(async () => {
+    const session = await loadSession(id);
+    if (session) exportSessionFile(session);
+  }, 'Session could not be exported.');
+
+  const handleDelete = (id: string) => run(async () => {
+    await deleteSession(id);
+    refresh();
+  }, 'Session could not be deleted.');
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    run(async () => {
+      const session = await importSessionFile(file);
+      await saveSession(session);
+      onOpen(session);
+    }, 'Project file could not be imported.');
+  };
+
+  const current = name.trim() ? buildSession(name.trim()) : null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-6">
+      <div className="bg-white rounded-3xl border border-slate-200 shadow-2xl w-full max-w-2xl overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+        <div className="flex items-center justify-between px-6 py-5 border-b border-slate-100">
+          <div>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Audit Sessions</p>
+            <p className="text-xs font-medium text-slate-500 mt-1">Stored in this browser only. Nothing is uploaded.</p>
+          </div>
+          <button onClick={onClose} className="p-1.5 text-slate-300 hover:text-rose-500 transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="flex items-center gap-2">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Session name"
+              className="flex-1 bg-slate-50 border border-slate-200 rounded-xl px-3 py-2.5 text-xs font-bold text-slate-700 focus:outline-none focus:border-indigo-500"
+            />
+            <button
+              onClick={handleSave}
+              disabled={busy || !current}
+              className="flex items-center gap-1.5 bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white px-4 py-2.5 rounded-xl font-bold text-xs transition-colors"
+            >
+              <Save size={14} /> Save
+            </button>
+            <button
+              onClick={() => current && exportSessionFile(current)}
+              disabled={busy || !current}
+              title="Download the current audit as a project file"
+              className="flex items-center gap-1.5 bg-slate-900 hover:bg-black disabled:bg-slate-300 text-white px-4 py-2.5 rounded-xl font-bold text-xs transition-colors"
+            >
+              <Download size={14} /> Project File
+            </button>
+          </div>
+
+          {error && (
+            <p className="flex items-center gap-2 text-xs font-bold text-rose-600">
+              <AlertCircle size={14} /> {error}
+            </p>
+          )}
+
+          <div className="space-y-2 max-h-80 overflow-y-auto custom-scrollbar pr-1">
+            {sessions.length === 0 && (
+              <p className="text-xs font-medium text-slate-400 text-center py-6">No saved sessions yet.</p>
+            )}
+            {sessions.map(s => (
+              <div key={s.id} className="flex items-center gap-3 bg-slate-50 p-3 rounded-2xl border border-slate-100 group">
+                <div className="flex-1 min-w-0">
+                  <p className="truncate text-xs font-black text-slate-700">{s.name}</p>
+                  <p className="text-[10px] text-slate-400 uppercase font-black tracking-tight">
+                    {new Date(s.savedAt).toLocaleString()} • {s.fileCount} files • {s.recordCount} records
+                  </p>
+                </div>
+                <button onClick={() => handleOpen(s.id)} disabled={busy} className="flex items-center gap-1 text-[10px] font-bold text-indigo-600 hover:text-indigo-800 uppercase tracking-widest px-2">
+                  <FolderOpen size={12} /> Open
+                </button>
+                <button onClick={() => handleExportSaved(s.id)} disabled={busy} className="p-1.5 text-slate-300 hover:text-indigo-600 transition-colors" title="Export project file">
+                  <Download size={14} />
+                </button>
+                <button onClick={() => handleDelete(s.id)} disabled={busy} className="p-1.5 text-slate-300 hover:text-rose-500 transition-colors" title="Delete session">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between px-6 py-4 border-t border-slate-100 bg-slate-50">
+          <label className="flex items-center gap-1.5 text-[10px] font-bold text-indigo-600 hover:text-indigo-800 uppercase tracking-widest cursor-pointer">
+            <Upload size={12} /> Import Project File
+            <input type="file" accept=".json" onChange={handleImport} className="hidden" />
+          </label>
+          <button onClick={onClose} className="text-[10px] font-bold text-slate-400 hover:text-slate-600 uppercase tracking-widest px-3 py-2">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionManager;
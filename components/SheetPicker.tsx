@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { FileSpreadsheet, X } from 'lucide-react';
+import { FileData, PendingWorkbook } from '../types.ts';
+import { fileHeaders } from '../services/mappingService.ts';
+
+interface SheetPickerProps {
+  workbook: PendingWorkbook;
+  onConfirm: (sheets: FileData[]) => void;
+  onCancel: () => void;
+}
+
+const SheetPicker: React.FC<SheetPickerProps> = ({ workbook, onConfirm, onCancel }) => {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(workbook.sheets.map(s => s.name)));
+
+  const toggle = (name: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(name)) {
+        next.delete(name);
+      } else {
+        next.add(name);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-6">
+      <div className="bg-white rounded-3xl border border-slate-200 shadow-2xl w-full max-w-lg overflow-hidden animate-in fade-in zoom-in-95 duration-200">
+        <div className="flex items-center justify-between px-6 py-5 border-b border-slate-100">
+          <div className="min-w-0">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Select Worksheets</p>
+            <p className="truncate text-sm font-black text-slate-800 mt-1">{workbook.fileName}</p>
+          </div>
+          <button onClick={onCancel} className="p-1.5 text-slate-300 hover:text-rose-500 transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-2 max-h-80 overflow-y-auto custom-scrollbar">
+          {workbook.sheets.map(sheet => (
+            <label
+              key={sheet.name}
+              className={`flex items-center gap-3 p-3 rounded-2xl border cursor-pointer transition-colors ${
+                selected.has(sheet.name) ? 'bg-indigo-50 border-indigo-200' : 'bg-slate-50 border-slate-100 hover:border-slate-200'
+              }`}
+            >
+              <input
+                type="checkbox"
+                checked={selected.has(sheet.name)}
+                onChange={() => toggle(sheet.name)}
+                className="accent-indigo-600"
+              />
+              <FileSpreadsheet size={14} className="text-slate-400" />
+              <div className="flex-1 min-w-0">
+                <p className="truncate text-xs font-black text-slate-700">{sheet.sheetName}</p>
+                <p className="text-[10px] text-slate-400 uppercase font-black tracking-tight">
+                  {sheet.data.length} records • {fileHeaders(sheet).length} columns
+                </p>
+              </div>
+            </label>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 px-6 py-4 border-t border-slate-100 bg-slate-50">
+          <button onClick={onCancel} className="text-[10px] font-bold text-slate-400 hover:text-slate-600 uppercase tracking-widest px-3 py-2">
+            Skip Workbook
+          </button>
+          <button
+            disabled={selected.size === 0}
+            onClick={() => onConfirm(workbook.sheets.filter(s => selected.has(s.name)))}
+            className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-slate-300 text-white px-5 py-2.5 rounded-xl font-bold text-xs transition-colors"
+          >
+            Import {selected.size} {selected.size === 1 ? 'Sheet' : 'Sheets'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SheetPicker;
@@ -0,0 +1,158 @@
+import React from 'react';
+import { ClipboardCheck } from 'lucide-react';
+import { AuditResult } from '../types.ts';
+import { DEFAULT_SEVERITY } from '../services/rulesService.ts';
+import { cellReview, REVIEW_STATUS_LABELS, VERSION_REVIEW } from '../services/reviewService.ts';
+import { SEVERITY_STYLES } from './RulesPanel.tsx';
+import { REVIEW_STYLES } from './ReviewDialog.tsx';
+import { useScrollWindow, visibleRange } from './useScrollWindow.ts';
+
+interface TimelineTableProps {
+  results: AuditResult[];
+  columns: string[]; // File, as-of date and loan ID first; those three stay pinned while scrolling sideways
+  idKey: string;
+  ignoredColumns?: string[]; // Shown with a muted header; they never carry highlights
+  onReview?: (item: AuditResult, field: string) => void; // A changed cell, or VERSION_REVIEW from the file column
+}
+
+const ROW_HEIGHT = 72;
+const PINNED_COUNT = 3;
+const PINNED_WIDTH = 180;
+const COLUMN_WIDTH = 220;
+const ROW_OVERSCAN = 6;
+const COLUMN_OVERSCAN = 2;
+
+const TimelineTable: React.FC<TimelineTableProps> = ({ results, columns, idKey, ignoredColumns = [], onReview }) => {
+  const { ref, viewport, onScroll } = useScrollWindow();
+
+  const pinned = columns.slice(0, PINNED_COUNT);
+  const scrolling = columns.slice(PINNED_COUNT);
+  const pinnedWidth = pinned.length * PINNED_WIDTH;
+
+  // Only the rows and columns inside the viewport are rendered; spacers keep the scroll extent intact
+  const rows = visibleRange(viewport.top, viewport.height, ROW_HEIGHT, results.length, ROW_OVERSCAN);
+  const cols = visibleRange(viewport.left, Math.max(viewport.width - pinnedWidth, 0), COLUMN_WIDTH, scrolling.length, COLUMN_OVERSCAN);
+  const visibleColumns = scrolling.slice(cols.start, cols.end);
+  const leftPad = cols.start * COLUMN_WIDTH;
+  const rightPad = (scrolling.length - cols.end) * COLUMN_WIDTH;
+  const spacerCount = (leftPad > 0 ? 1 : 0) + (rightPad > 0 ? 1 : 0);
+
+  const pinnedStyle = (index: number): React.CSSProperties => ({ left: index * PINNED_WIDTH, width: PINNED_WIDTH });
+
+  const renderCell = (item: AuditResult, key: string, style: React.CSSProperties, pinnedCell: boolean) => {
+    const isChanged = item.changes.has(key);
+    const severity = item.severities?.[key] ?? DEFAULT_SEVERITY;
+    const isIdentifier = key === idKey || key === 'Found_In_File' || key === 'As_Of_Date';
+    const ruleHits = item.hits?.filter(h => h.field === key) ?? [];
+    const review = isChanged ? cellReview(item, key) : undefined;
+    const versionReview = item.reviews?.[VERSION_REVIEW];
+    const reviewable = isChanged && !!onReview;
+    return (
+      <td
+        key={key}
+        style={style}
+        onClick={reviewable ? () => onReview(item, key) : undefined}
+        title={[
+          ...ruleHits.map(h => `${h.severity.toUpperCase()}: ${h.description}`),
+          ...(review ? [`${REVIEW_STATUS_LABELS[review.status]} by ${review.reviewer}${review.comment ? `: ${review.comment}` : ''}`] : []),
+        ].join('\n') || `${item.row[key] ?? ''}`}
+        className={`px-8 whitespace-nowrap overflow-hidden text-ellipsis transition-all border-r border-slate-50 last:border-0 ${reviewable ? 'cursor-pointer' : ''} ${
+          pinnedCell
+            ? 'sticky z-10 bg-slate-50 font-bold text-slate-400 italic text-xs' // Opaque so scrolled cells pass underneath
+            : isChanged
+              ? SEVERITY_STYLES[severity].cell
+              : isIdentifier
+                ? 'bg-slate-50/50 font-bold text-slate-400 italic text-xs'
+                : 'text-slate-600 font-medium'
+        }`}
+      >
+        <div className="flex items-center gap-2 overflow-hidden">
+          {isChanged && <div className={`w-1.5 h-1.5 shrink-0 rounded-full ${SEVERITY_STYLES[severity].dot}`}></div>}
+          <span className="truncate">{item.row[key]}</span>
+          {item.normalized[key] !== undefined && (
+            <span className="text-[10px] font-bold text-slate-400 not-italic shrink-0" title="Normalized value used for comparison">
+              → {item.normalized[key]}
+            </span>
+          )}
+          {review && <span className={`shrink-0 ${REVIEW_STYLES[review.status].text}`}>{REVIEW_STYLES[review.status].icon}</span>}
+          {pinnedCell && key === 'Found_In_File' && onReview && item.changes.size > 0 && (
+            <button
+              onClick={() => onReview(item, VERSION_REVIEW)}
+              title={versionReview ? `Version ${REVIEW_STATUS_LABELS[versionReview.status]} by ${versionReview.reviewer}` : 'Review every change in this version'}
+              className={`ml-auto shrink-0 not-italic transition-colors ${
+                versionReview ? REVIEW_STYLES[versionReview.status].text : 'text-slate-300 hover:text-indigo-600'
+              }`}
+            >
+              {versionReview ? REVIEW_STYLES[versionReview.status].icon : <ClipboardCheck size={12} />}
+            </button>
+          )}
+        </div>
+      </td>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-[2rem] border border-slate-200 shadow-2xl overflow-hidden">
+      <div ref={ref} onScroll={onScroll} className="overflow-auto max-h-[640px] custom-scrollbar">
+        <table
+          className="text-left text-sm border-collapse table-fixed"
+          style={{ width: pinnedWidth + scrolling.length * COLUMN_WIDTH, minWidth: '100%' }}
+        >
+          <thead>
+            <tr className="bg-slate-50 border-b border-slate-200">
+              {pinned.map((header, i) => (
+                <th key={header} style={pinnedStyle(i)} className="px-8 py-5 font-black text-slate-400 uppercase tracking-[0.15em] text-[10px] whitespace-nowrap overflow-hidden text-ellipsis sticky top-0 bg-slate-50 z-30 border-r border-slate-100">
+                  {header}
+                </th>
+              ))}
+              {leftPad > 0 && <th style={{ width: leftPad }} className="sticky top-0 bg-slate-50 z-20"></th>}
+              {visibleColumns.map((header) => (
+                <th
+                  key={header}
+                  style={{ width: COLUMN_WIDTH }}
+                  title={ignoredColumns.includes(header) ? `${header} (ignored for change detection)` : header}
+                  className={`px-8 py-5 font-black uppercase tracking-[0.15em] text-[10px] whitespace-nowrap overflow-hidden text-ellipsis sticky top-0 bg-slate-50 z-20 border-r border-slate-100 last:border-0 ${
+                    ignoredColumns.includes(header) ? 'text-slate-300 italic' : 'text-slate-400'
+                  }`}
+                >
+                  {header}
+                </th>
+              ))}
+              {rightPad > 0 && <th style={{ width: rightPad }} className="sticky top-0 bg-slate-50 z-20"></th>}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {rows.start > 0 && <tr style={{ height: rows.start * ROW_HEIGHT }}></tr>}
+            {results.slice(rows.start, rows.end).map((item, offset) => {
+              const rowIdx = rows.start + offset;
+              return item.absent ? (
+                <tr key={rowIdx} style={{ height: ROW_HEIGHT }} className="bg-slate-50/70">
+                  {pinned.map((key, i) => (
+                    <td key={key} style={pinnedStyle(i)} className="sticky z-10 bg-slate-50 px-8 whitespace-nowrap overflow-hidden text-ellipsis border-r border-slate-50">
+                      {i < 2 ? (
+                        <span className="font-bold text-slate-300 italic text-xs">{item.row[key]}</span>
+                      ) : (
+                        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Absent</span>
+                      )}
+                    </td>
+                  ))}
+                  {visibleColumns.length + spacerCount > 0 && <td colSpan={visibleColumns.length + spacerCount}></td>}
+                </tr>
+              ) : (
+                <tr key={rowIdx} style={{ height: ROW_HEIGHT }} className="hover:bg-slate-50 transition-colors group">
+                  {pinned.map((key, i) => renderCell(item, key, pinnedStyle(i), true))}
+                  {leftPad > 0 && <td></td>}
+                  {visibleColumns.map((key) => renderCell(item, key, {}, false))}
+                  {rightPad > 0 && <td></td>}
+                </tr>
+              );
+            })}
+            {rows.end < results.length && <tr style={{ height: (results.length - rows.end) * ROW_HEIGHT }}></tr>}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default TimelineTable;
@@ -0,0 +1,149 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ColumnFilterSettings, ColumnMapping, ComparisonBaseline, ComparisonSettings, DuplicateSettings, FieldRule, FileData, ReviewLog,
+} from '../types.ts';
+import { EngineQuery, EngineResult, FileStats, IndexOverview, WorkerRequest, WorkerResponse } from '../services/auditEngine.ts';
+import { subRecordKey, DEFAULT_DUPLICATES } from '../services/duplicateService.ts';
+import { buildSchemaReport } from '../services/schemaService.ts';
+
+const EMPTY_OVERVIEW: IndexOverview = {
+  metadata: { idKey: null, files: [] },
+  subKey: subRecordKey(DEFAULT_DUPLICATES),
+  columns: [],
+  profiles: {},
+  schema: buildSchemaReport([], null),
+  fileStats: {},
+};
+
+// Row arrays are never copied once parsed, so their identity names the dataset the worker holds
+const datasetIds = new WeakMap<any[], string>();
+const datasetId = (data: any[]) => {
+  let id = datasetIds.get(data);
+  if (!id) {
+    id = crypto.randomUUID();
+    datasetIds.set(data, id);
+  }
+  return id;
+};
+
+export interface LoanIndexClient {
+  overview: IndexOverview;
+  indexing: boolean;
+  revision: object; // Replaced whenever the worker's engine changes, so queries know to re-run
+  fileStats: (file: FileData) => FileStats | undefined;
+  query: <Q extends EngineQuery>(query: Q) => Promise<EngineResult<Q['kind']>>;
+}
+
+// Maps, indexes, profiles and audits the loaded files in a web worker that keeps the rows, so neither the scans
+// nor copies of the data block the UI thread. The overview stays on screen until the next one arrives;
+// replies to superseded index requests are dropped
+export const useLoanIndex = (
+  files: FileData[],
+  columnMapping: ColumnMapping,
+  duplicates: DuplicateSettings,
+  comparison: ComparisonSettings,
+  rules: FieldRule[],
+  baseline: ComparisonBaseline,
+  columnFilters: ColumnFilterSettings,
+  reviews: ReviewLog,
+): LoanIndexClient => {
+  const worker = useRef<Worker | null>(null);
+  const latest = useRef(0);
+  const sent = useRef(new Set<string>());
+  const nextQuery = useRef(0);
+  const pending = useRef(new Map<number, { resolve: (result: any) => void; reject: (err: Error) => void }>());
+  const [overview, setOverview] = useState<IndexOverview>(EMPTY_OVERVIEW);
+  const [indexing, setIndexing] = useState(false);
+
+  useEffect(() => {
+    const instance = new Worker(new URL('../services/indexWorker.ts', import.meta.url), { type: 'module' });
+    const waiting = pending.current;
+    instance.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const response = event.data;
+      if (response.type === 'indexed') {
+        if (response.seq !== latest.current) return;
+        setOverview(response.overview);
+        setIndexing(false);
+        return;
+      }
+      const handlers = waiting.get(response.id);
+      waiting.delete(response.id);
+      if (response.error !== undefined) handlers?.reject(new Error(response.error));
+      else handlers?.resolve(response.result);
+    };
+    instance.onerror = (event) => {
+      console.error("Error indexing files:", event.message);
+      setIndexing(false);
+    };
+    worker.current = instance;
+    sent.current = new Set();
+    return () => {
+      instance.terminate();
+      waiting.forEach(({ reject }) => reject(new Error('The audit worker was stopped')));
+      waiting.clear();
+    };
+  }, []);
+
+  useEffect(() => {
+    const datasets: Record<string, any[]> = {};
+    const workerFiles = files.map(({ data, ...file }) => {
+      const dataId = datasetId(data);
+      if (!sent.current.has(dataId)) datasets[dataId] = data;
+      return { ...file, dataId };
+    });
+    // The worker drops rows no file refers to any more, so forget them here too
+    sent.current = new Set(workerFiles.map(f => f.dataId));
+    const request: WorkerRequest = {
+      type: 'index', seq: ++latest.current, files: workerFiles, datasets, columnMapping, duplicates, comparison,
+    };
+    setIndexing(true);
+    worker.current?.postMessage(request);
+  }, [files, columnMapping, duplicates, comparison]);
+
+  useEffect(() => {
+    const request: WorkerRequest = { type: 'configure', rules, baseline, columnFilters, reviews };
+    worker.current?.postMessage(request);
+  }, [rules, baseline, columnFilters, reviews]);
+
+  const revision = useMemo(() => ({}), [files, columnMapping, duplicates, comparison, rules, baseline, columnFilters, reviews]);
+
+  const fileStats = useCallback((file: FileData) => {
+    const id = datasetIds.get(file.data);
+    return id ? overview.fileStats[id] : undefined;
+  }, [overview]);
+
+  // The worker handles messages in order, so a query always sees the settings posted before it
+  const query = useCallback(<Q extends EngineQuery>(engineQuery: Q) => {
+    return new Promise<EngineResult<Q['kind']>>((resolve, reject) => {
+      const id = ++nextQuery.current;
+      pending.current.set(id, { resolve, reject });
+      const request: WorkerRequest = { type: 'query', id, query: engineQuery };
+      worker.current?.postMessage(request);
+    });
+  }, []);
+
+  return { overview, indexing, revision, fileStats, query };
+};
+
+// Runs a query against the worker's engine and re-runs it whenever the query or the engine changes. The previous
+// answer stays until the new one arrives unless the query itself changed; a null query answers `empty`
+export const useEngineQuery = <Q extends EngineQuery>(
+  index: LoanIndexClient,
+  engineQuery: Q | null,
+  empty: EngineResult<Q['kind']>,
+): EngineResult<Q['kind']> => {
+  const key = engineQuery ? JSON.stringify(engineQuery) : '';
+  const [answer, setAnswer] = useState<{ key: string; result: EngineResult<Q['kind']> } | null>(null);
+  const { query, revision } = index;
+
+  useEffect(() => {
+    if (!engineQuery) return;
+    let current = true;
+    query(engineQuery)
+      .then(result => { if (current) setAnswer({ key, result }); })
+      .catch(err => { if (current) console.error(`Error running the ${engineQuery.kind} query:`, err); });
+    return () => { current = false; };
+  }, [query, revision, key]);
+
+  return answer && answer.key === key ? answer.result : empty;
+};
@@ -0,0 +1,37 @@
+import { useCallback, useLayoutEffect, useState } from 'react';
+
+export interface ScrollViewport {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
+// Tracks the scroll offset and size of a scroll container so tables can render only what is on screen.
+// The ref is a callback so containers that mount later (e.g. inside a collapsed panel) are still observed
+export const useScrollWindow = () => {
+  const [node, setNode] = useState<HTMLDivElement | null>(null);
+  const [viewport, setViewport] = useState<ScrollViewport>({ top: 0, left: 0, width: 0, height: 0 });
+
+  const measure = useCallback(() => {
+    if (!node) return;
+    setViewport({ top: node.scrollTop, left: node.scrollLeft, width: node.clientWidth, height: node.clientHeight });
+  }, [node]);
+
+  useLayoutEffect(() => {
+    if (!node) return;
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [node, measure]);
+
+  return { ref: setNode, viewport, onScroll: measure };
+};
+
+// Index range [start, end) of fixed-size items intersecting the visible extent, padded by `overscan` items each side
+export const visibleRange = (offset: number, extent: number, itemSize: number, count: number, overscan: number) => {
+  const end = Math.min(count, Math.ceil((offset + extent) / itemSize) + overscan);
+  const start = Math.min(end, Math.max(0, Math.floor(offset / itemSize) - overscan));
+  return { start, end };
+};
@@ -0,0 +1,348 @@
+import { describe, expect, it } from 'vitest';
+import { AuditResult, ColumnFilterSettings, ComparisonBaseline, FileData, LoanRow, ReviewLog, ReviewStatus } from '../types.ts';
+import { buildExportColumns, buildSummaryColumns } from './auditService.ts';
+import {
+  auditLoan, buildLoanReport, buildPortfolioChangeLog, buildPortfolioSummary, buildTimeline, createAuditEngine, indexLoans, prepareAudit,
+  reconcileSources, DEFAULT_AUDIT_SETTINGS,
+} from './auditEngine.ts';
+import { applyColumnMapping, EMPTY_MAPPING } from './mappingService.ts';
+import { buildColumnProfiles, valuesDiffer, EMPTY_COMPARISON } from './normalizeService.ts';
+import { DEFAULT_DUPLICATES } from './duplicateService.ts';
+import { parseCsvBytes, parseCsvText } from './csvService.ts';
+import { fileIssues, withoutBadRows, DEFAULT_PARSE_SETTINGS } from './diagnosticsService.ts';
+import { reviewProgress, reviewTarget, withReview, VERSION_REVIEW } from './reviewService.ts';
+import { buildAuditWorkbook, buildBatchWorkbook } from './excelService.ts';
+import { buildBatch, parseLoanList } from './batchService.ts';
+
+const january = parseCsvText('tape_2024-01-31.csv', [
+  'Loan Number,Balance,Rate,Name',
+  '1001,"$250,000.00",5.0,Smith',
+  '1002,100000,4.5,Jones',
+  '1003,75000,6,Lee',
+].join('\n'));
+
+const february = parseCsvText('tape_2024-02-29.csv', [
+  'Loan Number,Balance,Rate,Name',
+  '1001,249000,5,Smith',
+  '1003,75000,6.25,Lee',
+  '1003,74000,6.25,Lee',
+].join('\n'));
+
+const march = parseCsvText('tape_2024-03-31.csv', [
+  'Loan Number,Balance,Rate,Name',
+  '1001,248000,5,Smith',
+  '1002,99000,4.5,Jones',
+].join('\n'));
+
+const files: FileData[] = [january, february, march];
+
+describe('prepareAudit', () => {
+  it('detects the loan ID column and indexes every loan', () => {
+    const engine = prepareAudit(files);
+    expect(engine.idKey).toBe('Loan Number');
+    expect(Array.from(engine.loans.keys()).sort()).toEqual(['1001', '1002', '1003']);
+  });
+
+  it('keeps the first duplicate row by default and the last when asked', () => {
+    const first = prepareAudit(files);
+    expect(auditLoan(first, '1003')[1].row.Balance).toBe('75000');
+
+    const last = prepareAudit(files, { ...DEFAULT_AUDIT_SETTINGS, duplicateSettings: { strategy: 'keep_last', secondaryColumn: '' } });
+    expect(auditLoan(last, '1003')[1].row.Balance).toBe('74000');
+  });
+});
+
+describe('auditLoan', () => {
+  it('flags only real value changes, comparing numbers by value', () => {
+    const results = auditLoan(prepareAudit(files), ' 1001 ');
+    expect(results.map(res => Array.from(res.changes))).toEqual([[], ['Balance'], ['Balance']]);
+    expect(results[1].previous?.Balance).toBe('$250,000.00');
+  });
+
+  it('returns no versions for unknown loans', () => {
+    expect(auditLoan(prepareAudit(files), '9999')).toEqual([]);
+  });
+});
+
+describe('buildTimeline', () => {
+  // The stages the browser app memoizes one by one
+  const stagedEngine = (baseline: ComparisonBaseline) => {
+    const mapped = applyColumnMapping(files, EMPTY_MAPPING);
+    const index = indexLoans(mapped.files, mapped.idKey, DEFAULT_DUPLICATES);
+    return createAuditEngine(index, buildColumnProfiles(index.rows, EMPTY_COMPARISON), [], baseline);
+  };
+
+  it('adds absences to a staged engine and skips them when condensed to first and last', () => {
+    const engine = stagedEngine({ mode: 'previous', referenceFile: '' });
+    const timeline = buildTimeline(engine, auditLoan(engine, '1002'));
+    expect(timeline.map(res => !!res.absent)).toEqual([false, true, false]);
+
+    const condensed = stagedEngine({ mode: 'first_last', referenceFile: '' });
+    expect(buildTimeline(condensed, auditLoan(condensed, '1002')).some(res => res.absent)).toBe(false);
+  });
+});
+
+describe('column profiles', () => {
+  const profileOf = (column: string, values: string[]) => {
+    return buildColumnProfiles(values.map(value => ({ Found_In_File: 'tape.csv', As_Of_Date: '', [column]: value })), EMPTY_COMPARISON)[column];
+  };
+
+  it('reads bare percent values on one scale per column', () => {
+    const rate = profileOf('Rate', ['4.5', '6.25', '0.75']);
+    expect(rate.percentScale).toBe('whole');
+    expect(valuesDiffer('0.75', '0.75%', rate)).toBe(false);
+
+    const ltv = profileOf('LTV', ['0.8', '0.95', '1.05']);
+    expect(ltv.percentScale).toBe('fraction');
+    expect(valuesDiffer('1.05', '105%', ltv)).toBe(false);
+  });
+});
+
+describe('report columns', () => {
+  it('orders summary and export columns with the changed fields first', () => {
+    const results = auditLoan(prepareAudit(files), '1003');
+    expect(buildSummaryColumns(results, 'Loan Number')).toEqual(['Found_In_File', 'As_Of_Date', 'Loan Number', 'Rate']);
+    expect(buildExportColumns(results, 'Loan Number')).toEqual(['Found_In_File', 'As_Of_Date', 'Loan Number', 'Rate', 'Balance', 'Name']);
+  });
+});
+
+describe('buildLoanReport', () => {
+  it('adds absences, the change log and the loan\'s own conflicts', () => {
+    const report = buildLoanReport(prepareAudit(files), '1002');
+    expect(report?.results.map(res => Boolean(res.absent))).toEqual([false, true, false]);
+    expect(report?.extras.changeLog?.map(c => c.field)).toEqual(['Balance']);
+    expect(report?.extras.conflicts).toEqual([]);
+
+    const conflicted = buildLoanReport(prepareAudit(files), '1003');
+    expect(conflicted?.extras.conflicts?.map(c => c.fields)).toEqual([['Balance']]);
+  });
+
+  it('returns null for unknown loans', () => {
+    expect(buildLoanReport(prepareAudit(files), '9999')).toBeNull();
+  });
+
+  it('marks absences in the change count column without touching the data columns', () => {
+    const report = buildLoanReport(prepareAudit(files), '1002');
+    const workbook = report && buildAuditWorkbook(report.results, report.columns, report.extras);
+    const sheet = workbook?.getWorksheet('Audit Report');
+    const header = sheet?.getRow(1).values as string[];
+    const absent = sheet?.getRow(3);
+    expect(absent?.getCell(header.indexOf('Change_Count')).value).toBe('Absent');
+    expect(absent?.getCell(header.indexOf('Change_Count')).note).toBe('Absent in tape_2024-02-29.csv');
+    header.forEach((col, i) => {
+      if (col !== 'Change_Count') expect(absent?.getCell(i).value ?? '').toBe(report?.results[1].row[col] ?? '');
+    });
+  });
+});
+
+describe('comparison baselines', () => {
+  const settings = (baseline: ComparisonBaseline) => ({ ...DEFAULT_AUDIT_SETTINGS, baseline });
+  const changesOf = (results: AuditResult[]) => results.map(res => Array.from(res.changes));
+
+  // 1002's balance changes in February and changes back in March
+  const revert = [
+    january,
+    parseCsvText('tape_2024-02-29.csv', 'Loan Number,Balance,Rate,Name\n1002,90000,4.5,Jones\n'),
+    parseCsvText('tape_2024-03-31.csv', 'Loan Number,Balance,Rate,Name\n1002,100000,4.5,Jones\n'),
+  ];
+
+  it('compares with the previous version by default', () => {
+    expect(changesOf(auditLoan(prepareAudit(revert), '1002'))).toEqual([[], ['Balance'], ['Balance']]);
+  });
+
+  it('compares every version with the first one', () => {
+    const results = auditLoan(prepareAudit(revert, settings({ mode: 'first', referenceFile: '' })), '1002');
+    expect(changesOf(results)).toEqual([[], ['Balance'], []]);
+    expect(results[2].previous?.Found_In_File).toBe('tape_2024-01-31.csv');
+  });
+
+  it('compares every version with a reference file', () => {
+    const engine = prepareAudit(revert, settings({ mode: 'reference', referenceFile: 'tape_2024-03-31.csv' }));
+    expect(changesOf(auditLoan(engine, '1002'))).toEqual([[], ['Balance'], []]);
+    expect(auditLoan(engine, '1002')[2].previous).toBeUndefined();
+  });
+
+  it('condenses the timeline to the first and last versions', () => {
+    const engine = prepareAudit(files, settings({ mode: 'first_last', referenceFile: '' }));
+    const report = buildLoanReport(engine, '1002');
+    expect(report?.results.map(res => res.row.Found_In_File)).toEqual(['tape_2024-01-31.csv', 'tape_2024-03-31.csv']);
+    expect(changesOf(report?.results ?? [])).toEqual([[], ['Balance']]);
+    expect(report?.extras.baseline?.mode).toBe('first_last');
+  });
+});
+
+describe('column filters', () => {
+  const filtered = (columnFilters: ColumnFilterSettings) => prepareAudit(files, { ...DEFAULT_AUDIT_SETTINGS, columnFilters });
+
+  it('never flags ignored columns but keeps them in the summary and export', () => {
+    const engine = filtered({ ignoredColumns: ['Balance'], groups: [], activeGroups: [] });
+    const results = auditLoan(engine, '1001');
+    expect(results.every(res => res.changes.size === 0)).toBe(true);
+    expect(buildSummaryColumns(results, 'Loan Number', ['Balance'])).toEqual(['Found_In_File', 'As_Of_Date', 'Loan Number', 'Balance']);
+    expect(buildLoanReport(engine, '1001')?.columns).toContain('Balance');
+  });
+
+  it('limits changes and export columns to the active groups', () => {
+    const groups = [{ name: 'Pricing', columns: ['Rate'] }, { name: 'Borrower', columns: ['Name'] }];
+    const report = buildLoanReport(filtered({ ignoredColumns: [], groups, activeGroups: ['Pricing'] }), '1003');
+    expect(report?.columns).toEqual(['Found_In_File', 'As_Of_Date', 'Loan Number', 'Rate']);
+    expect(report?.extras.changeLog?.map(c => c.field)).toEqual(['Rate']);
+
+    const other = buildLoanReport(filtered({ ignoredColumns: [], groups, activeGroups: ['Borrower'] }), '1001');
+    expect(other?.results.every(res => res.changes.size === 0)).toBe(true);
+  });
+
+  it('limits portfolio, batch and change-log exports to the active groups', () => {
+    const columnFilters = { ignoredColumns: [], groups: [{ name: 'Pricing', columns: ['Rate'] }], activeGroups: ['Pricing'] };
+    const engine = filtered(columnFilters);
+
+    const summaries = buildPortfolioSummary(engine);
+    expect(summaries.filter(s => s.changeCount > 0).map(s => [s.loanId, s.changedFields])).toEqual([['1003', ['Rate']]]);
+    expect(buildPortfolioChangeLog(engine).map(c => c.field)).toEqual(['Rate']);
+
+    const entries = buildBatch(engine, ['1001', '1003']);
+    expect(entries.map(e => e.results.some(res => res.changes.size > 0))).toEqual([false, true]);
+    const header = buildBatchWorkbook(entries, 'Loan Number', {}, columnFilters)?.getWorksheet('Loan 1003')?.getRow(1).values;
+    expect(header).toContain('Rate');
+    expect(header).not.toContain('Balance');
+    expect(header).not.toContain('Name');
+  });
+});
+
+describe('buildBatch', () => {
+  it('audits each loan exactly as the single-loan report does', () => {
+    const reviews = withReview({}, {
+      ...reviewTarget(auditLoan(prepareAudit(files), '1001')[1].row, 'Loan Number', '', 'Balance'),
+      status: 'approved', reviewer: 'QC', comment: '', reviewedAt: '2024-05-01T00:00:00.000Z',
+    });
+    const engine = prepareAudit(files, {
+      ...DEFAULT_AUDIT_SETTINGS,
+      fieldRules: [{ id: 'r1', field: 'Balance', condition: 'any_change', severity: 'critical' }],
+      columnFilters: { ignoredColumns: ['Name'], groups: [{ name: 'Money', columns: ['Balance', 'Rate'] }], activeGroups: ['Money'] },
+      reviews,
+    });
+    const entries = buildBatch(engine, ['1001', '1002', '1003', '9999']);
+    entries.slice(0, 3).forEach(entry => expect(entry.results).toEqual(buildLoanReport(engine, entry.loanId)?.results));
+    expect(entries[3].results).toEqual([]);
+    expect(buildPortfolioChangeLog(engine)).toEqual(entries.flatMap(e => buildLoanReport(engine, e.loanId)?.extras.changeLog ?? []));
+  });
+});
+
+describe('parseLoanList', () => {
+  it('drops a header only from uploaded CSVs, and never a known loan number', () => {
+    expect(parseLoanList('LOAN123\nLOAN124')).toEqual(['LOAN123', 'LOAN124']);
+    expect(parseLoanList('Loan Number,Note\n1001,x\n1002,y', true)).toEqual(['1001', '1002']);
+    expect(parseLoanList('LOAN123,x\nLOAN124,y', true, id => id === 'LOAN123')).toEqual(['LOAN123', 'LOAN124']);
+  });
+});
+
+describe('reconcileSources', () => {
+  const servicer = parseCsvText('servicer_2024-01-31.csv', [
+    'Loan Number,Balance,Rate,Status',
+    '1001,250000,5.0,Current',
+    '1002,"$100,000",4.75,Current',
+    '1004,50000,7,Current',
+  ].join('\n'));
+
+  it('waits until both sources are tagged', () => {
+    expect(reconcileSources(prepareAudit([{ ...january, source: 'A' }, servicer]))).toBeNull();
+  });
+
+  it('joins the sources on the loan ID and compares the shared columns', () => {
+    const report = reconcileSources(prepareAudit([{ ...january, source: 'A' }, { ...servicer, source: 'B' }]));
+    expect(report?.columns).toEqual(['Balance', 'Rate']);
+    expect(report?.entries.map(e => [e.loanId, e.status, e.mismatches])).toEqual([
+      ['1002', 'mismatched', ['Rate']],
+      ['1003', 'only_a', []],
+      ['1004', 'only_b', []],
+      ['1001', 'matched', []],
+    ]);
+  });
+});
+
+describe('parse diagnostics', () => {
+  it('detects pipe-delimited Windows-1252 tapes', () => {
+    const file = parseCsvBytes('tape.csv', Buffer.from('Loan Number|Balance|Name\n1001|100|Café\n', 'latin1'));
+    expect(file.diagnostics).toMatchObject({ delimiter: '|', encoding: 'windows-1252', columnCount: 3 });
+    expect(file.data[0].Name).toBe('Café');
+  });
+
+  it('reports mis-sized rows and blank IDs, and drops them when asked', () => {
+    const tape = parseCsvText('tape_2024-04-30.csv', [
+      'Loan Number,Balance,Rate',
+      '1001,250000,5',
+      '1002,100000',
+      ',75000,6',
+      '1003,75000,6,extra',
+    ].join('\n'));
+    expect(fileIssues(tape, 'Loan Number').map(issue => [issue.row, issue.type])).toEqual([
+      [1, 'column_count'],
+      [2, 'blank_id'],
+      [3, 'column_count'],
+    ]);
+    expect(Object.keys(tape.data[3])).not.toContain('__parsed_extra');
+
+    expect(prepareAudit([tape]).loans.size).toBe(3);
+    expect(Array.from(prepareAudit([{ ...tape, excludeBadRows: true }]).loans.keys())).toEqual(['1001']);
+  });
+
+  it('numbers issue rows from the start of the file when parsing in chunks', () => {
+    const lines = ['Loan Number,Balance,Rate'];
+    for (let i = 0; i < 40; i++) lines.push(i % 10 === 3 ? `${2000 + i},100` : `${2000 + i},100,5`);
+    lines[36] = '2035,"100"0,5';
+    const tape = parseCsvText('tape_2024-04-30.csv', lines.join('\n'), DEFAULT_PARSE_SETTINGS, 'utf-8', 64);
+
+    const issues = fileIssues(tape, 'Loan Number');
+    expect(issues.filter(issue => issue.type === 'column_count').map(issue => issue.row)).toEqual([3, 13, 23, 33, 35]);
+    expect(new Set(issues.filter(issue => issue.type === 'malformed').map(issue => issue.row))).toEqual(new Set([35]));
+    expect(tape.data[35]['Loan Number']).toBe('2035');
+    const badRows = (file: FileData) => new Set(fileIssues(file, 'Loan Number').map(issue => issue.row));
+    expect(badRows(parseCsvText('tape_2024-04-30.csv', lines.join('\n')))).toEqual(badRows(tape));
+
+    const kept = withoutBadRows({ ...tape, excludeBadRows: true }, 'Loan Number').data.map(row => row['Loan Number']);
+    expect(kept).not.toContain('2003');
+    expect(kept).not.toContain('2033');
+    expect(kept).not.toContain('2035');
+    expect(kept).toContain('2034');
+  });
+});
+
+describe('reviews', () => {
+  const sign = (log: ReviewLog, row: LoanRow, field: string, status: ReviewStatus) => withReview(log, {
+    ...reviewTarget(row, 'Loan Number', '', field), status, reviewer: 'QC', comment: '', reviewedAt: '2024-05-01T00:00:00.000Z',
+  });
+
+  it('counts a change as reviewed when it or its whole version is signed off', () => {
+    const unreviewed = auditLoan(prepareAudit(files), '1001');
+    expect(reviewProgress(unreviewed)).toEqual({ reviewed: 0, total: 2 });
+
+    let reviews = sign({}, unreviewed[1].row, 'Balance', 'approved');
+    reviews = sign(reviews, unreviewed[2].row, VERSION_REVIEW, 'follow_up');
+    const reviewed = auditLoan(prepareAudit(files, { ...DEFAULT_AUDIT_SETTINGS, reviews }), '1001');
+    expect(reviewProgress(reviewed)).toEqual({ reviewed: 2, total: 2 });
+    expect(reviewed[2].reviews?.[VERSION_REVIEW]?.status).toBe('follow_up');
+  });
+
+  it('exports the sign-offs as a Review Log sheet', () => {
+    const engine = prepareAudit(files);
+    const reviews = sign({}, auditLoan(engine, '1003')[1].row, 'Rate', 'error');
+    const report = buildLoanReport(prepareAudit(files, { ...DEFAULT_AUDIT_SETTINGS, reviews }), '1003');
+    const workbook = report && buildAuditWorkbook(report.results, report.columns, report.extras);
+    const sheet = workbook?.getWorksheet('Review Log');
+    expect(sheet?.getRow(2).values).toEqual([undefined, '1003', 'tape_2024-02-29.csv', 'Rate', 'Error', 'QC', '', '2024-05-01T00:00:00.000Z']);
+  });
+
+  it('carries the sign-offs into batch results and the batch workbook', () => {
+    const reviews = sign({}, auditLoan(prepareAudit(files), '1003')[1].row, 'Rate', 'error');
+    const entries = buildBatch(prepareAudit(files, { ...DEFAULT_AUDIT_SETTINGS, reviews }), ['1001', '1003']);
+    expect(reviewProgress(entries[1].results)).toEqual({ reviewed: 1, total: 1 });
+
+    const workbook = buildBatchWorkbook(entries, 'Loan Number');
+    expect(workbook?.getWorksheet('Review Log')?.getRow(2).values).toEqual([
+      undefined, '1003', 'tape_2024-02-29.csv', 'Rate', 'Error', 'QC', '', '2024-05-01T00:00:00.000Z',
+    ]);
+    const sheet = workbook?.getWorksheet('Loan 1003');
+    const rateColumn = (sheet?.getRow(1).values as unknown[]).indexOf('Rate');
+    expect(sheet?.getRow(3).getCell(rateColumn).fill).toMatchObject({ fgColor: { argb: 'FFF5D0FE' } });
+  });
+});
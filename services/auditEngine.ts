@@ -0,0 +1,265 @@
+import {
+  AuditResult, BatchEntry, ChangeRecord, ColumnFilterSettings, ColumnMapping, ColumnProfile, ComparisonBaseline, ComparisonSettings, DuplicateSettings, FieldRule, FileData,
+  IntraFileConflict, LifecycleEvent, LoanRow, LoanSummary, ParseIssue, ReconcileReport, ReportMetadata, ReviewLog, SchemaReport, SearchMatch, SearchOptions,
+} from '../types.ts';
+import { buildExportColumns, detectChanges, groupByLoan, normalizeId, summarizeLoan, DEFAULT_BASELINE } from './auditService.ts';
+import { applyColumnMapping, EMPTY_MAPPING } from './mappingService.ts';
+import { buildColumnProfiles, EMPTY_COMPARISON } from './normalizeService.ts';
+import { describeDuplicateSettings, findIntraFileConflicts, resolveDuplicates, subRecordKey, DEFAULT_DUPLICATES } from './duplicateService.ts';
+import { buildLifecycle, withAbsences } from './lifecycleService.ts';
+import { applyRules } from './rulesService.ts';
+import { buildSchemaReport } from './schemaService.ts';
+import { buildChangeLog } from './changeLogService.ts';
+import { buildReconciliation, hasBothSources } from './reconcileService.ts';
+import { applyReviews, EMPTY_REVIEWS } from './reviewService.ts';
+import { filterColumnsToGroups, filterResultsToGroups, withIgnoredColumns, EMPTY_COLUMN_FILTERS } from './columnFilterService.ts';
+import { ReportExtras } from './excelService.ts';
+
+// Framework-independent audit pipeline shared by the browser app and the command-line auditor.
+// Each stage is a plain function so the app can memoize them separately.
+
+export interface AuditSettings {
+  columnMapping: ColumnMapping;
+  comparisonSettings: ComparisonSettings;
+  duplicateSettings: DuplicateSettings;
+  fieldRules: FieldRule[];
+  baseline: ComparisonBaseline;
+  columnFilters: ColumnFilterSettings;
+  reviews: ReviewLog;
+}
+
+export const DEFAULT_AUDIT_SETTINGS: AuditSettings = {
+  columnMapping: EMPTY_MAPPING,
+  comparisonSettings: EMPTY_COMPARISON,
+  duplicateSettings: DEFAULT_DUPLICATES,
+  fieldRules: [],
+  baseline: DEFAULT_BASELINE,
+  columnFilters: EMPTY_COLUMN_FILTERS,
+  reviews: EMPTY_REVIEWS,
+};
+
+// Mapped files with duplicates resolved and every loan's rows grouped by normalized ID
+export interface LoanIndex {
+  files: FileData[]; // Mapped but not de-duplicated, as shown in the file list and conflict reports
+  idKey: string | null;
+  duplicates: DuplicateSettings;
+  subKey: string;
+  rows: LoanRow[];
+  loans: Map<string, LoanRow[]>;
+}
+
+export interface AuditEngine extends LoanIndex {
+  profiles: Record<string, ColumnProfile>;
+  rules: FieldRule[];
+  baseline: ComparisonBaseline;
+  columnFilters: ColumnFilterSettings;
+  reviews: ReviewLog;
+}
+
+// Everything derived by scanning every row; the browser app builds it in a web worker
+export interface IndexedFiles {
+  mapped: { files: FileData[]; idKey: string | null };
+  index: LoanIndex;
+  profiles: Record<string, ColumnProfile>; // Inferred, before ignored columns are applied
+}
+
+export interface LoanReport {
+  loanId: string;
+  results: AuditResult[]; // Timeline including absences, as exported
+  columns: string[];
+  extras: ReportExtras;
+}
+
+// One loan as the single-loan view shows it
+export interface LoanAudit {
+  results: AuditResult[];
+  timeline: AuditResult[];
+  conflicts: IntraFileConflict[];
+}
+
+// The browser app keeps the rows, the index and the engine in a web worker. Each file's rows cross to the worker
+// once under a dataset ID; after that only file details, settings and queries are posted
+export interface WorkerFile extends Omit<FileData, 'data'> {
+  dataId: string;
+}
+
+export interface FileStats {
+  duplicates: number;
+  issues: ParseIssue[];
+}
+
+// Everything the app shows about the loaded files as a whole, posted back after each re-index
+export interface IndexOverview {
+  metadata: ReportMetadata;
+  subKey: string;
+  columns: string[]; // Mapped headers across every file
+  profiles: Record<string, ColumnProfile>; // Inferred, before ignored columns are applied
+  schema: SchemaReport;
+  fileStats: Record<string, FileStats>; // By dataset ID, so reordering or removing files never misaligns them
+}
+
+// Answers the app asks the engine for, by query kind
+export interface EngineQueries {
+  loan: { args: { loanId: string }; result: LoanAudit };
+  search: { args: { query: string; options: SearchOptions }; result: SearchMatch[] };
+  suggest: { args: { prefix: string }; result: string[] };
+  portfolio: { args: object; result: LoanSummary[] };
+  lifecycle: { args: object; result: LifecycleEvent[] };
+  conflicts: { args: object; result: IntraFileConflict[] };
+  batch: { args: { loanIds: string[] }; result: BatchEntry[] };
+  loanList: { args: { text: string; firstColumnOnly: boolean }; result: string[] };
+  reconcile: { args: object; result: ReconcileReport | null };
+  sharedExtras: { args: object; result: ReportExtras };
+  loanReport: { args: { loanId: string }; result: LoanReport | null };
+  portfolioChangeLog: { args: object; result: ChangeRecord[] };
+}
+
+export type EngineQueryKind = keyof EngineQueries;
+export type EngineQuery<K extends EngineQueryKind = EngineQueryKind> = K extends EngineQueryKind ? { kind: K } & EngineQueries[K]['args'] : never;
+export type EngineResult<K extends EngineQueryKind = EngineQueryKind> = EngineQueries[K]['result'];
+
+export type WorkerRequest =
+  | {
+    type: 'index';
+    seq: number;
+    files: WorkerFile[];
+    datasets: Record<string, any[]>; // Only rows the worker has not been sent yet
+    columnMapping: ColumnMapping;
+    duplicates: DuplicateSettings;
+    comparison: ComparisonSettings;
+  }
+  | { type: 'configure'; rules: FieldRule[]; baseline: ComparisonBaseline; columnFilters: ColumnFilterSettings; reviews: ReviewLog }
+  | { type: 'query'; id: number; query: EngineQuery };
+
+export type WorkerResponse =
+  | { type: 'indexed'; seq: number; overview: IndexOverview }
+  | { type: 'answer'; id: number; result?: EngineResult; error?: string };
+
+export const indexLoans = (files: FileData[], idKey: string | null, duplicates: DuplicateSettings): LoanIndex => {
+  const rows = resolveDuplicates(files, idKey, duplicates).flatMap(f => f.data);
+  return {
+    files,
+    idKey,
+    duplicates,
+    subKey: subRecordKey(duplicates),
+    rows,
+    loans: idKey ? groupByLoan(rows, idKey) : new Map<string, LoanRow[]>(),
+  };
+};
+
+// Column mapping, ID detection, duplicate handling and profiling
+export const indexFiles = (
+  files: FileData[],
+  columnMapping: ColumnMapping,
+  duplicates: DuplicateSettings,
+  comparison: ComparisonSettings,
+): IndexedFiles => {
+  const mapped = applyColumnMapping(files, columnMapping);
+  const index = indexLoans(mapped.files, mapped.idKey, duplicates);
+  return { mapped, index, profiles: buildColumnProfiles(index.rows, comparison) };
+};
+
+export const createAuditEngine = (
+  index: LoanIndex,
+  profiles: Record<string, ColumnProfile>,
+  rules: FieldRule[],
+  baseline: ComparisonBaseline = DEFAULT_BASELINE,
+  columnFilters: ColumnFilterSettings = EMPTY_COLUMN_FILTERS,
+  reviews: ReviewLog = EMPTY_REVIEWS,
+): AuditEngine => ({
+  ...index,
+  profiles,
+  rules,
+  baseline,
+  columnFilters,
+  reviews,
+});
+
+// Runs every stage from raw parsed files
+export const prepareAudit = (files: FileData[], settings: AuditSettings = DEFAULT_AUDIT_SETTINGS): AuditEngine => {
+  const { index, profiles } = indexFiles(files, settings.columnMapping, settings.duplicateSettings, settings.comparisonSettings);
+  const engineProfiles = withIgnoredColumns(profiles, settings.columnFilters.ignoredColumns);
+  return createAuditEngine(index, engineProfiles, settings.fieldRules, settings.baseline, settings.columnFilters, settings.reviews);
+};
+
+// Change-detected, rule-graded and reviewed versions of one loan limited to the active column groups, or [] when the loan is not in any file
+export const auditLoan = (engine: AuditEngine, loanId: string): AuditResult[] => {
+  if (!loanId || !engine.idKey) return [];
+  const rows = engine.loans.get(normalizeId(loanId));
+  if (!rows) return [];
+  const results = applyRules(detectChanges(rows, engine.profiles, engine.subKey, engine.baseline), engine.rules, engine.idKey, engine.profiles);
+  return applyReviews(filterResultsToGroups(results, engine.columnFilters), engine.reviews, engine.idKey, engine.subKey);
+};
+
+// The per-loan timeline including "absent in file X" placeholders for gaps, except in the condensed first-vs-last view
+export const buildTimeline = (engine: AuditEngine, results: AuditResult[]): AuditResult[] => {
+  if (!engine.idKey || engine.baseline.mode === 'first_last') return results;
+  return withAbsences(results, engine.files, engine.idKey);
+};
+
+// One row per indexed loan, summarizing the same audited versions the single-loan view shows
+export const buildPortfolioSummary = (engine: AuditEngine): LoanSummary[] => {
+  const { idKey } = engine;
+  if (!idKey) return [];
+  const summaries: LoanSummary[] = [];
+  engine.loans.forEach((rows, id) => {
+    summaries.push(summarizeLoan(String(rows[0][idKey]).trim(), auditLoan(engine, id)));
+  });
+  return summaries;
+};
+
+// Change log across every loan in the index, for portfolio-wide exports
+export const buildPortfolioChangeLog = (engine: AuditEngine): ChangeRecord[] => {
+  const { idKey } = engine;
+  if (!idKey) return [];
+  const records: ChangeRecord[] = [];
+  engine.loans.forEach((_, id) => {
+    records.push(...buildChangeLog(buildTimeline(engine, auditLoan(engine, id)), idKey));
+  });
+  return records;
+};
+
+export const buildReportMetadata = (engine: LoanIndex): ReportMetadata => ({
+  idKey: engine.idKey,
+  files: engine.files.map(f => ({ name: f.name, rows: f.data.length, asOfDate: f.asOfDate })),
+});
+
+// Report sections that cover every file rather than one loan; build once and share across loan reports
+export const buildSharedExtras = (engine: AuditEngine): ReportExtras => {
+  const { files, idKey } = engine;
+  return {
+    lifecycle: idKey && files.length >= 2 ? buildLifecycle(files, idKey) : [],
+    metadata: buildReportMetadata(engine),
+    conflicts: findIntraFileConflicts(files, idKey, engine.duplicates, engine.profiles),
+    conflictResolution: describeDuplicateSettings(engine.duplicates),
+    schema: buildSchemaReport(files, idKey),
+    baseline: engine.baseline,
+  };
+};
+
+// Everything exportToExcel needs for one loan, or null when the loan is not in any file
+export const buildLoanReport = (engine: AuditEngine, loanId: string, shared: ReportExtras = buildSharedExtras(engine)): LoanReport | null => {
+  const audited = auditLoan(engine, loanId);
+  if (audited.length === 0 || !engine.idKey) return null;
+
+  const results = buildTimeline(engine, audited);
+  const target = normalizeId(loanId);
+  return {
+    loanId: String(audited[0].row[engine.idKey]).trim(),
+    results,
+    columns: filterColumnsToGroups(buildExportColumns(audited, engine.idKey), engine.columnFilters),
+    extras: {
+      ...shared,
+      changeLog: buildChangeLog(results, engine.idKey),
+      conflicts: (shared.conflicts ?? []).filter(c => normalizeId(c.loanId) === target),
+    },
+  };
+};
+
+// Source A against Source B with the same mapping, duplicate handling and comparison profiles as the timeline,
+// or null until files are tagged on both sides
+export const reconcileSources = (engine: AuditEngine): ReconcileReport | null => {
+  if (!engine.idKey || !hasBothSources(engine.files)) return null;
+  const tagged = engine.files.filter(f => f.source);
+  return buildReconciliation(resolveDuplicates(tagged, engine.idKey, engine.duplicates), engine.idKey, engine.profiles);
+};
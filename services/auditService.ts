@@ -0,0 +1,164 @@
+import { AuditResult, BaselineMode, ColumnProfile, ComparisonBaseline, LoanRow, LoanSummary } from '../types.ts';
+import { formatNormalized, normalizeValue, valuesDiffer } from './normalizeService.ts';
+
+// Synthetic column holding the joined parts of a composite loan key
+export const COMPOSITE_KEY_COLUMN = 'Loan_Key';
+
+// Columns added by the app itself rather than read from the source files
+export const META_COLUMNS = ['Found_In_File', 'As_Of_Date', COMPOSITE_KEY_COLUMN];
+
+export const normalizeId = (value: unknown): string => String(value ?? '').trim().toLowerCase();
+
+export const DEFAULT_BASELINE: ComparisonBaseline = { mode: 'previous', referenceFile: '' };
+
+export const BASELINE_LABELS: Record<BaselineMode, string> = {
+  previous: 'Previous version',
+  first: 'First version',
+  reference: 'Reference file',
+  first_last: 'First vs. last',
+};
+
+export const describeBaseline = (baseline: ComparisonBaseline) => {
+  return baseline.mode === 'reference' ? `${BASELINE_LABELS.reference}: ${baseline.referenceFile}` : BASELINE_LABELS[baseline.mode];
+};
+
+// A reference file that is no longer loaded falls back to comparing each version with the previous one
+export const resolveBaseline = (baseline: ComparisonBaseline, fileNames: string[]): ComparisonBaseline => {
+  return baseline.mode === 'reference' && !fileNames.includes(baseline.referenceFile) ? DEFAULT_BASELINE : baseline;
+};
+
+// Normalized renderings of the cells whose raw text differs from them, e.g. "$250,000.00" → "250000.00"
+const normalizedCells = (row: LoanRow, profiles: Record<string, ColumnProfile>): Record<string, string> => {
+  const normalized: Record<string, string> = {};
+  Object.keys(row).forEach(key => {
+    const profile = profiles[key];
+    if (!profile || profile.type === 'text') return;
+    const formatted = formatNormalized(normalizeValue(row[key], profile.type, profile.percentScale), profile.type);
+    if (formatted !== String(row[key] ?? '').trim()) normalized[key] = formatted;
+  });
+  return normalized;
+};
+
+// Only the first and last version of each sub-record, in their original order
+const firstAndLast = (rows: LoanRow[], subOf: (row: LoanRow) => string): LoanRow[] => {
+  const first = new Map<string, LoanRow>();
+  const last = new Map<string, LoanRow>();
+  rows.forEach(row => {
+    const sub = subOf(row);
+    if (!first.has(sub)) first.set(sub, row);
+    last.set(sub, row);
+  });
+  return rows.filter(row => first.get(subOf(row)) === row || last.get(subOf(row)) === row);
+};
+
+// Compares every row against its baseline (by default the instance immediately before it), using the column profiles
+// for type-aware equality. With a sub-key column, rows only compare against rows of the same sub-record (e.g. the
+// same investor). The first-vs-last baseline returns only the first and last versions of each sub-record
+export const detectChanges = (
+  rows: LoanRow[],
+  profiles: Record<string, ColumnProfile> = {},
+  subKey = '',
+  baseline: ComparisonBaseline = DEFAULT_BASELINE,
+): AuditResult[] => {
+  const subOf = (row: LoanRow) => (subKey ? normalizeId(row[subKey]) : '');
+  const versions = baseline.mode === 'first_last' ? firstAndLast(rows, subOf) : rows;
+
+  // Baselines keyed by sub-record: the reference file's row, or the previous/first row seen so far
+  const baselineBySubKey = new Map<string, LoanRow>();
+  if (baseline.mode === 'reference') {
+    rows.forEach(row => {
+      const sub = subOf(row);
+      if (row.Found_In_File === baseline.referenceFile && !baselineBySubKey.has(sub)) baselineBySubKey.set(sub, row);
+    });
+  }
+
+  return versions.map(row => {
+    const sub = subOf(row);
+    const baselineRow = baselineBySubKey.get(sub);
+    const prevRow = baselineRow === row ? undefined : baselineRow;
+    const changes = new Set<string>();
+    if (prevRow) {
+      Object.keys(row).forEach(key => {
+        // Columns the previous file did not have are schema events, not loan changes
+        if (META_COLUMNS.includes(key) || !(key in prevRow)) return;
+        if (valuesDiffer(row[key], prevRow[key], profiles[key])) {
+          changes.add(key);
+        }
+      });
+    }
+    if (baseline.mode === 'previous' || (baseline.mode !== 'reference' && !baselineRow)) baselineBySubKey.set(sub, row);
+    return { row, changes, normalized: normalizedCells(row, profiles), previous: prevRow };
+  });
+};
+
+// Groups rows by loan ID, preserving file order within each group. The result doubles as the
+// loan index, so lookups by ID never rescan the full row set
+export const groupByLoan = (rows: LoanRow[], idKey: string): Map<string, LoanRow[]> => {
+  const groups = new Map<string, LoanRow[]>();
+  rows.forEach(row => {
+    const id = normalizeId(row[idKey]);
+    if (!id) return;
+    const group = groups.get(id);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(id, [row]);
+    }
+  });
+  return groups;
+};
+
+export const summarizeLoan = (loanId: string, results: AuditResult[]): LoanSummary => {
+  const changedFields = new Set<string>();
+  let changeCount = 0;
+  results.forEach(res => {
+    changeCount += res.changes.size;
+    res.changes.forEach(c => changedFields.add(c));
+  });
+
+  return {
+    loanId,
+    versions: results.length,
+    changeCount,
+    changedFields: Array.from(changedFields).sort(),
+    files: results.map(res => String(res.row.Found_In_File)),
+    exceptions: results.flatMap(res => res.hits ?? []),
+  };
+};
+
+// On-screen column order: file, as-of date, loan ID, then only the columns that changed somewhere, then any
+// ignored columns the loan carries so they stay visible without being highlighted
+export const buildSummaryColumns = (results: AuditResult[], idKey: string, ignoredColumns: string[] = []): string[] => {
+  const changedCols = new Set<string>();
+  results.forEach(res => {
+    res.changes.forEach(c => changedCols.add(c));
+  });
+  const ignored = ignoredColumns
+    .filter(c => !changedCols.has(c) && c !== idKey && results.some(res => c in res.row))
+    .sort();
+
+  return ['Found_In_File', 'As_Of_Date', idKey, ...Array.from(changedCols).sort(), ...ignored];
+};
+
+// Priority Column Order: 1. File, 2. As-of date, 3. Loan ID, 4. Changed Columns, 5. Everything else
+export const buildExportColumns = (results: AuditResult[], idKey: string): string[] => {
+  const allUniqueKeys = new Set<string>();
+  results.forEach(res => {
+    Object.keys(res.row).forEach(k => allUniqueKeys.add(k));
+  });
+
+  const changedColsSet = new Set<string>();
+  results.forEach(res => {
+    res.changes.forEach(c => changedColsSet.add(c));
+  });
+  const sortedChangedCols = Array.from(changedColsSet).sort();
+
+  const priorityCols = ['Found_In_File', 'As_Of_Date', idKey, ...sortedChangedCols];
+  const prioritySet = new Set(priorityCols);
+
+  const remainingCols = Array.from(allUniqueKeys)
+    .filter(k => !prioritySet.has(k))
+    .sort();
+
+  return [...priorityCols, ...remainingCols];
+};
@@ -0,0 +1,32 @@
+import { BatchEntry } from '../types.ts';
+import { normalizeId } from './auditService.ts';
+import { auditLoan, buildTimeline, AuditEngine } from './auditEngine.ts';
+
+// Splits a pasted or uploaded list into unique loan numbers; CSV uploads only contribute their first column.
+// `isKnownId` tells a header cell from a loan number that merely contains "loan"
+export const parseLoanList = (text: string, firstColumnOnly = false, isKnownId: (id: string) => boolean = () => false): string[] => {
+  const lines = text.split(/\r?\n/)
+    .map(line => (firstColumnOnly ? line.split(/[,;\t]/)[0] : line).trim())
+    .filter(Boolean);
+  // Drop a header line such as "Loan Number" from uploaded CSVs; pasted lists are taken as typed
+  if (firstColumnOnly && lines.length > 0 && /loan/i.test(lines[0]) && !isKnownId(lines[0].replace(/^["']|["']$/g, ''))) lines.shift();
+  const tokens = lines
+    .flatMap(line => line.split(/[,;\t]+/))
+    // Composite keys ("275032 | INV01") keep their inner spaces; plain IDs may be space separated
+    .flatMap(cell => (cell.includes('|') ? [cell.trim()] : cell.split(/\s+/)))
+    .map(t => t.replace(/^["']|["']$/g, ''))
+    .filter(Boolean);
+
+  const seen = new Set<string>();
+  return tokens.filter(token => {
+    const id = normalizeId(token);
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+};
+
+// Each requested loan's timeline, exactly as the single-loan view audits it; unknown loans get no versions
+export const buildBatch = (engine: AuditEngine, loanIds: string[]): BatchEntry[] => {
+  return loanIds.map(loanId => ({ loanId, results: buildTimeline(engine, auditLoan(engine, loanId)) }));
+};
@@ -0,0 +1,45 @@
+import Papa from 'papaparse';
+import { AuditResult, ChangeRecord } from '../types.ts';
+
+export type ChangeLogFormat = 'csv' | 'json';
+
+// Column order shared by the CSV export and the "Change Log" workbook sheet
+export const CHANGE_LOG_FIELDS: (keyof ChangeRecord)[] = [
+  'loanId', 'field', 'oldValue', 'newValue', 'fromFile', 'toFile', 'changeIndex',
+];
+
+// Flattens one loan's timeline into a record per changed field, attributing each change to the
+// version it was compared against (absent placeholders never are)
+export const buildChangeLog = (results: AuditResult[], idKey: string): ChangeRecord[] => {
+  const records: ChangeRecord[] = [];
+  results.forEach(res => {
+    const prevRow = res.previous;
+    if (prevRow) {
+      Object.keys(res.row).filter(key => res.changes.has(key)).forEach(field => {
+        records.push({
+          loanId: String(res.row[idKey] ?? '').trim(),
+          field,
+          oldValue: String(prevRow[field] ?? ''),
+          newValue: String(res.row[field] ?? ''),
+          fromFile: String(prevRow.Found_In_File),
+          toFile: String(res.row.Found_In_File),
+          changeIndex: records.length + 1,
+        });
+      });
+    }
+  });
+  return records;
+};
+
+export const exportChangeLog = (records: ChangeRecord[], format: ChangeLogFormat, baseName: string) => {
+  const payload = format === 'csv'
+    ? Papa.unparse(records, { columns: CHANGE_LOG_FIELDS })
+    : JSON.stringify(records, null, 2);
+  const blob = new Blob([payload], { type: format === 'csv' ? 'text/csv' : 'application/json' });
+  const url = window.URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = `${baseName}.${format}`;
+  anchor.click();
+  window.URL.revokeObjectURL(url);
+};
@@ -0,0 +1,60 @@
+import { AuditResult, ColumnFilterProfile, ColumnFilterSettings, ColumnProfile } from '../types.ts';
+
+const PROFILES_STORAGE_KEY = 'loan-auditor.column-filter-profiles';
+
+export const EMPTY_COLUMN_FILTERS: ColumnFilterSettings = { ignoredColumns: [], groups: [], activeGroups: [] };
+
+// Report columns that always stay visible: file, as-of date and loan ID
+const PINNED_COUNT = 3;
+
+// Marks ignored columns on top of the inferred profiles so every comparison treats them as unchanged
+export const withIgnoredColumns = (
+  profiles: Record<string, ColumnProfile>,
+  ignoredColumns: string[],
+): Record<string, ColumnProfile> => {
+  if (ignoredColumns.length === 0) return profiles;
+  const next = { ...profiles };
+  ignoredColumns.forEach(column => {
+    if (next[column]) next[column] = { ...next[column], ignored: true };
+  });
+  return next;
+};
+
+// Columns of the active groups, or null when no group is selected and every column is in scope
+export const activeGroupColumns = (settings: ColumnFilterSettings): Set<string> | null => {
+  const groups = settings.groups.filter(g => settings.activeGroups.includes(g.name));
+  if (groups.length === 0) return null;
+  return new Set(groups.flatMap(g => g.columns));
+};
+
+// Limits an ordered column list to the active groups, keeping the pinned identifier columns
+export const filterColumnsToGroups = (columns: string[], settings: ColumnFilterSettings): string[] => {
+  const allowed = activeGroupColumns(settings);
+  if (!allowed) return columns;
+  return columns.filter((column, i) => i < PINNED_COUNT || allowed.has(column));
+};
+
+// Drops changes, severities and rule hits outside the active groups so counts and logs match the visible columns
+export const filterResultsToGroups = (results: AuditResult[], settings: ColumnFilterSettings): AuditResult[] => {
+  const allowed = activeGroupColumns(settings);
+  if (!allowed) return results;
+  return results.map(res => ({
+    ...res,
+    changes: new Set(Array.from(res.changes).filter(c => allowed.has(c))),
+    hits: res.hits?.filter(h => allowed.has(h.field)),
+  }));
+};
+
+export const loadColumnFilterProfiles = (): ColumnFilterProfile[] => {
+  try {
+    const stored = localStorage.getItem(PROFILES_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (err) {
+    console.error("Error reading column filter profiles:", err);
+    return [];
+  }
+};
+
+export const saveColumnFilterProfiles = (profiles: ColumnFilterProfile[]) => {
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+};
@@ -0,0 +1,92 @@
+import Papa from 'papaparse';
+import { FileData, LoanRow, ParseIssue, ParseSettings, TextEncoding } from '../types.ts';
+import { detectDelimiter, detectEncoding, toParseIssues, DEFAULT_PARSE_SETTINGS, SAMPLE_BYTES } from './diagnosticsService.ts';
+
+const PARSE_CHUNK_SIZE = 1024 * 1024;
+
+// Papa collects the fields of over-long rows here; they are reported as column-count issues instead
+const EXTRA_FIELDS_KEY = '__parsed_extra';
+
+// Every parsed row records its source file; the as-of date is filled in once the file is dated
+const toLoanRow = (row: any, fileName: string): LoanRow => {
+  const newRow: any = { Found_In_File: fileName, As_Of_Date: '' };
+  Object.keys(row).forEach(k => {
+    if (k !== EXTRA_FIELDS_KEY) newRow[k] = row[k];
+  });
+  return newRow;
+};
+
+// Accumulates Papa's chunks into loan rows, keeping issue rows aligned with the rows collected so far
+const collectChunks = (fileName: string) => {
+  const data: LoanRow[] = [];
+  const issues: ParseIssue[] = [];
+  let columnCount = 0;
+  let firstChunk = true;
+  const onChunk = (results: any) => {
+    issues.push(...toParseIssues(results.errors, data.length, firstChunk));
+    firstChunk = false;
+    columnCount = columnCount || (results.meta.fields?.length ?? 0);
+    results.data.forEach((row: any) => data.push(toLoanRow(row, fileName)));
+  };
+  return { data, issues, onChunk, columnCount: () => columnCount };
+};
+
+// Parses in Papa's web worker, one chunk at a time, so large tapes never block the UI thread.
+// Encoding and delimiter are guessed from the first bytes unless the settings fix them
+export const parseCsvFile = async (
+  file: File,
+  onProgress: (fraction: number) => void,
+  settings: ParseSettings = DEFAULT_PARSE_SETTINGS,
+): Promise<FileData> => {
+  const sample = new Uint8Array(await file.slice(0, SAMPLE_BYTES).arrayBuffer());
+  const encoding = settings.encoding ?? detectEncoding(sample);
+  const delimiter = settings.delimiter ?? detectDelimiter(new TextDecoder(encoding).decode(sample));
+
+  return new Promise<FileData>((resolve, reject) => {
+    const collected = collectChunks(file.name);
+    Papa.parse(file, {
+      header: true,
+      skipEmptyLines: true,
+      worker: true,
+      chunkSize: PARSE_CHUNK_SIZE,
+      delimiter,
+      encoding,
+      chunk: (results) => {
+        collected.onChunk(results);
+        if (file.size > 0) onProgress(Math.min(results.meta.cursor / file.size, 1));
+      },
+      complete: () => resolve({
+        name: file.name,
+        data: collected.data,
+        diagnostics: { delimiter, encoding, settings, columnCount: collected.columnCount(), issues: collected.issues },
+      }),
+      error: (err) => reject(new Error(`Could not read ${file.name}: ${err?.message ?? err}`)),
+    });
+  });
+};
+
+// Synchronous variant for text already in memory, e.g. files read from disk by the command-line auditor.
+// Papa parses strings synchronously even when chunked; the chunk size mirrors file parsing in tests
+export const parseCsvText = (
+  name: string,
+  text: string,
+  settings: ParseSettings = DEFAULT_PARSE_SETTINGS,
+  encoding: TextEncoding = 'utf-8',
+  chunkSize: number = PARSE_CHUNK_SIZE,
+): FileData => {
+  const delimiter = settings.delimiter ?? detectDelimiter(text.slice(0, SAMPLE_BYTES));
+  const collected = collectChunks(name);
+  Papa.parse(text, { header: true, skipEmptyLines: true, delimiter, chunkSize, chunk: collected.onChunk });
+  return {
+    name,
+    data: collected.data,
+    diagnostics: { delimiter, encoding, settings, columnCount: collected.columnCount(), issues: collected.issues },
+  };
+};
+
+// Decodes raw file bytes with the detected (or given) encoding before parsing
+export const parseCsvBytes = (name: string, bytes: Uint8Array, settings: ParseSettings = DEFAULT_PARSE_SETTINGS): FileData => {
+  const encoding = settings.encoding ?? detectEncoding(bytes.subarray(0, SAMPLE_BYTES));
+  // TextDecoder drops a leading byte-order mark
+  return parseCsvText(name, new TextDecoder(encoding).decode(bytes), settings, encoding);
+};
@@ -0,0 +1,101 @@
+import { CsvDelimiter, FileData, ParseIssue, ParseIssueType, ParseSettings, TextEncoding } from '../types.ts';
+import { normalizeId } from './auditService.ts';
+
+export const DEFAULT_PARSE_SETTINGS: ParseSettings = { delimiter: null, encoding: null };
+
+export const DELIMITER_LABELS: Record<CsvDelimiter, string> = {
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '|': 'Pipe',
+  '\t': 'Tab',
+};
+
+export const ENCODING_LABELS: Record<TextEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'windows-1252': 'Windows-1252',
+};
+
+export const ISSUE_LABELS: Record<ParseIssueType, string> = {
+  malformed: 'Malformed Row',
+  column_count: 'Column Count',
+  blank_id: 'Blank ID',
+};
+
+// Bytes read from the start of a file to guess its encoding and delimiter
+export const SAMPLE_BYTES = 64 * 1024;
+const SAMPLE_LINES = 20;
+
+// UTF-8 unless the sample holds byte sequences UTF-8 does not allow, which in loan tapes means a Windows export
+export const detectEncoding = (bytes: Uint8Array): TextEncoding => {
+  try {
+    // Streaming tolerates a multi-byte character cut off at the end of the sample
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return 'utf-8';
+  } catch (err) {
+    return 'windows-1252';
+  }
+};
+
+const countOutsideQuotes = (line: string, delimiter: string) => {
+  let count = 0;
+  let quoted = false;
+  for (const ch of line) {
+    if (ch === '"') quoted = !quoted;
+    else if (!quoted && ch === delimiter) count++;
+  }
+  return count;
+};
+
+// The candidate that splits the most sampled lines into as many fields as the header, falling back to a comma
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const lines = text.split(/\r\n|\n|\r/).filter(line => line.trim()).slice(0, SAMPLE_LINES);
+  let best: CsvDelimiter = ',';
+  let bestConsistent = 0;
+  let bestFields = 0;
+  (Object.keys(DELIMITER_LABELS) as CsvDelimiter[]).forEach(delimiter => {
+    const fields = countOutsideQuotes(lines[0] ?? '', delimiter);
+    if (fields === 0) return;
+    const consistent = lines.filter(line => countOutsideQuotes(line, delimiter) === fields).length;
+    if (consistent > bestConsistent || (consistent === bestConsistent && fields > bestFields)) {
+      best = delimiter;
+      bestConsistent = consistent;
+      bestFields = fields;
+    }
+  });
+  return best;
+};
+
+// Papa reports broken quoting as 'Quotes' and short or long rows as 'FieldMismatch'. When parsing in chunks,
+// column-count rows already count from the start of the file, while quoting rows count from the start of the
+// chunk and, in the first chunk, include the header line
+export const toParseIssues = (errors: any[], chunkStart: number, firstChunk: boolean): ParseIssue[] => {
+  return errors
+    .filter(error => typeof error.row === 'number')
+    .map((error): ParseIssue => error.type === 'FieldMismatch'
+      ? { type: 'column_count', row: error.row, message: error.message }
+      : { type: 'malformed', row: chunkStart + error.row - (firstChunk ? 1 : 0), message: error.message });
+};
+
+export const findBlankIds = (file: FileData, idColumn: string | null): ParseIssue[] => {
+  if (!idColumn) return [];
+  const issues: ParseIssue[] = [];
+  file.data.forEach((row, index) => {
+    if (!normalizeId(row[idColumn])) issues.push({ type: 'blank_id', row: index, message: `${idColumn} is blank` });
+  });
+  return issues;
+};
+
+// Parse issues plus blank loan IDs for one unmapped file, in row order
+export const fileIssues = (file: FileData, idColumn: string | null): ParseIssue[] => {
+  return [...(file.diagnostics?.issues ?? []), ...findBlankIds(file, idColumn)].sort((a, b) => a.row - b.row);
+};
+
+// Applied before column mapping, while row indices still match the parse diagnostics
+export const withoutBadRows = (file: FileData, idColumn: string | null): FileData => {
+  if (!file.excludeBadRows) return file;
+  const bad = new Set(fileIssues(file, idColumn).map(issue => issue.row));
+  return bad.size > 0 ? { ...file, data: file.data.filter((_, index) => !bad.has(index)) } : file;
+};
+
+// Row number as shown when the CSV is opened in a spreadsheet, with the header on row 1
+export const displayRow = (index: number) => index + 2;
@@ -0,0 +1,83 @@
+import { ColumnProfile, DuplicateSettings, DuplicateStrategy, FileData, IntraFileConflict, LoanRow } from '../types.ts';
+import { META_COLUMNS, normalizeId } from './auditService.ts';
+import { valuesDiffer } from './normalizeService.ts';
+
+export const DEFAULT_DUPLICATES: DuplicateSettings = { strategy: 'keep_first', secondaryColumn: '' };
+
+export const DUPLICATE_STRATEGY_LABELS: Record<DuplicateStrategy, string> = {
+  keep_first: 'Keep first row',
+  keep_last: 'Keep last row',
+  sub_records: 'Sub-records by column',
+};
+
+// The column that splits a loan into sub-records, or '' when duplicates collapse to a single row
+export const subRecordKey = (settings: DuplicateSettings) => {
+  return settings.strategy === 'sub_records' ? settings.secondaryColumn : '';
+};
+
+// How duplicates were handled, as written into report conflict sheets
+export const describeDuplicateSettings = (settings: DuplicateSettings) => {
+  return settings.strategy === 'sub_records'
+    ? `Sub-records by ${settings.secondaryColumn || '(no column)'}; first row kept`
+    : DUPLICATE_STRATEGY_LABELS[settings.strategy];
+};
+
+// Rows sharing a key within one file; the key includes the sub-record column when one is in use
+const duplicateGroups = (file: FileData, idKey: string, subKey: string): LoanRow[][] => {
+  const groups = new Map<string, LoanRow[]>();
+  file.data.forEach((row: LoanRow) => {
+    const id = normalizeId(row[idKey]);
+    if (!id) return;
+    const key = subKey ? `${id}\u0000${normalizeId(row[subKey])}` : id;
+    const group = groups.get(key);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(key, [row]);
+    }
+  });
+  return Array.from(groups.values()).filter(group => group.length > 1);
+};
+
+// Number of loans appearing on more than one row of the file, regardless of the chosen strategy
+export const countDuplicateLoans = (file: FileData, idKey: string): number => {
+  return idKey ? duplicateGroups(file, idKey, '').length : 0;
+};
+
+export const findIntraFileConflicts = (
+  files: FileData[],
+  idKey: string,
+  settings: DuplicateSettings,
+  profiles: Record<string, ColumnProfile> = {},
+): IntraFileConflict[] => {
+  if (!idKey) return [];
+  const subKey = subRecordKey(settings);
+  return files.flatMap(file => duplicateGroups(file, idKey, subKey).map(rows => {
+    const fields = new Set<string>();
+    rows.slice(1).forEach(row => {
+      Object.keys(row).forEach(key => {
+        if (!META_COLUMNS.includes(key) && valuesDiffer(row[key], rows[0][key], profiles[key])) fields.add(key);
+      });
+    });
+    return { loanId: String(rows[0][idKey]).trim(), file: file.name, rows, fields: Array.from(fields).sort() };
+  }));
+};
+
+// Collapses duplicate rows so they never surface as timeline changes. Sub-record mode keeps one row per
+// loan and secondary value; rows that still collide keep their first occurrence
+export const resolveDuplicates = (files: FileData[], idKey: string, settings: DuplicateSettings): FileData[] => {
+  if (!idKey) return files;
+  const subKey = subRecordKey(settings);
+  const keepLast = settings.strategy === 'keep_last';
+
+  return files.map(file => {
+    const dropped = new Set<LoanRow>();
+    duplicateGroups(file, idKey, subKey).forEach(rows => {
+      const kept = keepLast ? rows[rows.length - 1] : rows[0];
+      rows.forEach(row => {
+        if (row !== kept) dropped.add(row);
+      });
+    });
+    return dropped.size > 0 ? { ...file, data: file.data.filter(row => !dropped.has(row)) } : file;
+  });
+};
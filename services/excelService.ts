@@ -1,20 +1,51 @@
 
 import ExcelJS from 'exceljs';
+import {
+  AuditResult, BatchEntry, ChangeRecord, ColumnFilterSettings, ComparisonBaseline, IntraFileConflict, LifecycleEvent, LifecycleEventType, LoanRow, LoanSummary,
+  ReconcileReport, ReportMetadata, ReviewEntry, ReviewStatus, RuleHit, SchemaReport, Severity,
+} from '../types.ts';
+import { buildExportColumns, describeBaseline, DEFAULT_BASELINE } from './auditService.ts';
+import { LIFECYCLE_LABELS } from './lifecycleService.ts';
+import { buildChangeLog } from './changeLogService.ts';
+import { DEFAULT_SEVERITY, SEVERITY_ORDER } from './rulesService.ts';
+import { countByStatus, mismatchedColumns, RECONCILE_STATUS_LABELS } from './reconcileService.ts';
+import { cellReview, listReviews, REVIEW_STATUS_LABELS, VERSION_REVIEW } from './reviewService.ts';
+import { filterColumnsToGroups, EMPTY_COLUMN_FILTERS } from './columnFilterService.ts';
 
-export const exportToExcel = async (results: any[], loanId: string, columnKeys: string[]) => {
-  const workbook = new ExcelJS.Workbook();
-  const worksheet = workbook.addWorksheet('Audit Report');
+// Optional workbook sections appended after the main report sheet
+export interface ReportExtras {
+  lifecycle?: LifecycleEvent[];
+  exceptions?: RuleHit[];
+  changeLog?: ChangeRecord[];
+  metadata?: ReportMetadata;
+  conflicts?: IntraFileConflict[];
+  conflictResolution?: string; // How the duplicates were handled, e.g. "Keep first row"
+  schema?: SchemaReport;
+  baseline?: ComparisonBaseline; // Comparison mode behind the highlights, named in the Metadata sheet
+}
 
-  if (results.length === 0 || columnKeys.length === 0) return;
+// Per-row count of changed fields, written right after the loan ID
+const CHANGE_COUNT_COLUMN = 'Change_Count';
 
-  // Set up worksheet columns with appropriate widths
-  worksheet.columns = columnKeys.map(col => ({ 
-    header: col, 
-    key: col, 
-    width: col === 'Found_In_File' ? 40 : 25 
-  }));
+const SEVERITY_FILLS: Record<Severity, { fill: string; font: string; border: string }> = {
+  critical: { fill: 'FFFCA5A5', font: 'FF7F1D1D', border: 'FFB91C1C' }, // Red-300 on red-900
+  major: { fill: 'FFFDBA74', font: 'FF7C2D12', border: 'FFC2410C' }, // Orange-300 on orange-900
+  minor: { fill: 'FFFFFF00', font: 'FF000000', border: 'FFB45309' }, // Bright Yellow
+  noise: { fill: 'FFF1F5F9', font: 'FF64748B', border: 'FFCBD5E1' }, // Slate-100
+};
 
-  // Style Header Row
+// Reviewed changes take the sign-off colour instead of the severity colour
+const REVIEW_FILLS: Record<ReviewStatus, { fill: string; font: string; border: string }> = {
+  approved: { fill: 'FFBBF7D0', font: 'FF14532D', border: 'FF15803D' }, // Green-200 on green-900
+  follow_up: { fill: 'FFBFDBFE', font: 'FF1E3A8A', border: 'FF1D4ED8' }, // Blue-200 on blue-900
+  error: { fill: 'FFF5D0FE', font: 'FF701A75', border: 'FFA21CAF' }, // Fuchsia-200 on fuchsia-900
+};
+
+const describeReview = (review: ReviewEntry) => {
+  return `Review: ${REVIEW_STATUS_LABELS[review.status]} by ${review.reviewer || 'unknown'}${review.comment ? `\n${review.comment}` : ''}`;
+};
+
+const styleHeaderRow = (worksheet: ExcelJS.Worksheet) => {
   const headerRow = worksheet.getRow(1);
   headerRow.height = 30;
   headerRow.font = { bold: true, color: { argb: 'FFFFFFFF' }, size: 11 };
@@ -24,52 +55,400 @@ export const exportToExcel = async (results: any[], loanId: string, columnKeys:
     fgColor: { argb: 'FF1E293B' } // Slate-800
   };
   headerRow.alignment = { vertical: 'middle', horizontal: 'left', indent: 1 };
+};
+
+const LIFECYCLE_SHEETS: Record<LifecycleEventType, { title: string; color: string }> = {
+  added: { title: 'New Loans', color: 'FFD1FAE5' }, // Emerald-100
+  dropped: { title: 'Dropped Loans', color: 'FFFFE4E6' }, // Rose-100
+  reappeared: { title: 'Reappeared Loans', color: 'FFE0F2FE' }, // Sky-100
+};
+
+// One sheet per lifecycle event type, skipping types with no events
+const addLifecycleSheets = (workbook: ExcelJS.Workbook, events: LifecycleEvent[]) => {
+  (Object.keys(LIFECYCLE_SHEETS) as LifecycleEventType[]).forEach(type => {
+    const matching = events.filter(e => e.type === type);
+    if (matching.length === 0) return;
+
+    const worksheet = workbook.addWorksheet(LIFECYCLE_SHEETS[type].title);
+    worksheet.columns = [
+      { header: 'Loan', key: 'loanId', width: 25 },
+      { header: 'Event', key: 'event', width: 14 },
+      { header: 'Snapshot', key: 'file', width: 40 },
+      { header: 'Previous Snapshot', key: 'previousFile', width: 40 },
+      ...(type === 'reappeared' ? [{ header: 'Last Seen', key: 'lastSeenFile', width: 40 }] : []),
+    ];
+    styleHeaderRow(worksheet);
+
+    matching.forEach(event => {
+      const row = worksheet.addRow({ ...event, event: LIFECYCLE_LABELS[type] });
+      row.height = 22;
+      row.alignment = { vertical: 'middle', horizontal: 'left', indent: 1 };
+      row.getCell(1).font = { bold: true, color: { argb: 'FF334155' } };
+      row.getCell(2).fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: LIFECYCLE_SHEETS[type].color } };
+    });
+
+    worksheet.autoFilter = { from: 'A1', to: type === 'reappeared' ? 'E1' : 'D1' };
+    worksheet.views = [{ state: 'frozen', xSplit: 1, ySplit: 1 }];
+  });
+};
+
+const addExceptionsSheet = (workbook: ExcelJS.Workbook, hits: RuleHit[]) => {
+  if (hits.length === 0) return;
+
+  const worksheet = workbook.addWorksheet('Exceptions');
+  worksheet.columns = [
+    { header: 'Severity', key: 'severity', width: 12 },
+    { header: 'Loan', key: 'loanId', width: 22 },
+    { header: 'Field', key: 'field', width: 28 },
+    { header: 'Rule', key: 'description', width: 40 },
+    { header: 'Previous Value', key: 'oldValue', width: 25 },
+    { header: 'New Value', key: 'newValue', width: 25 },
+    { header: 'From File', key: 'fromFile', width: 40 },
+    { header: 'To File', key: 'toFile', width: 40 },
+  ];
+  styleHeaderRow(worksheet);
+
+  [...hits]
+    .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity))
+    .forEach(hit => {
+      const row = worksheet.addRow({ ...hit, severity: hit.severity.toUpperCase() });
+      row.height = 22;
+      row.alignment = { vertical: 'middle', horizontal: 'left', indent: 1 };
+      const severityCell = row.getCell(1);
+      severityCell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: SEVERITY_FILLS[hit.severity].fill } };
+      severityCell.font = { bold: true, color: { argb: SEVERITY_FILLS[hit.severity].font } };
+    });
+
+  worksheet.autoFilter = { from: 'A1', to: 'H1' };
+  worksheet.views = [{ state: 'frozen', xSplit: 0, ySplit: 1 }];
+};
+
+// Long-format companion to the highlighted report: one row per changed field
+const addChangeLogSheet = (workbook: ExcelJS.Workbook, records: ChangeRecord[]) => {
+  if (records.length === 0) return;
+
+  const worksheet = workbook.addWorksheet('Change Log');
+  worksheet.columns = [
+    { header: 'Loan', key: 'loanId', width: 22 },
+    { header: 'Field', key: 'field', width: 28 },
+    { header: 'Old Value', key: 'oldValue', width: 25 },
+    { header: 'New Value', key: 'newValue', width: 25 },
+    { header: 'From File', key: 'fromFile', width: 40 },
+    { header: 'To File', key: 'toFile', width: 40 },
+    { header: 'Change #', key: 'changeIndex', width: 10 },
+  ];
+  styleHeaderRow(worksheet);
+
+  records.forEach(record => {
+    const row = worksheet.addRow(record);
+    row.height = 22;
+    row.alignment = { vertical: 'middle', horizontal: 'left', indent: 1 };
+    row.getCell(1).font = { bold: true, color: { argb: 'FF334155' } };
+  });
+
+  worksheet.autoFilter = { from: 'A1', to: 'G1' };
+  worksheet.views = [{ state: 'frozen', xSplit: 0, ySplit: 1 }];
+};
+
+// Duplicate rows for one loan inside a single file, reported apart from the timeline changes
+const addConflictsSheet = (workbook: ExcelJS.Workbook, conflicts: IntraFileConflict[], resolution = '') => {
+  if (conflicts.length === 0) return;
+
+  const worksheet = workbook.addWorksheet('Intra-File Conflicts');
+  worksheet.columns = [
+    { header: 'Loan', key: 'loanId', width: 22 },
+    { header: 'File', key: 'file', width: 40 },
+    { header: 'Rows', key: 'rows', width: 8 },
+    { header: 'Differing Fields', key: 'fields', width: 60 },
+    { header: 'Resolution', key: 'resolution', width: 36 },
+  ];
+  styleHeaderRow(worksheet);
+
+  conflicts.forEach(conflict => {
+    const row = worksheet.addRow({
+      loanId: conflict.loanId,
+      file: conflict.file,
+      rows: conflict.rows.length,
+      fields: conflict.fields.length > 0 ? conflict.fields.join(', ') : 'Identical rows',
+      resolution,
+    });
+    row.height = 22;
+    row.alignment = { vertical: 'middle', horizontal: 'left', indent: 1 };
+    row.getCell(1).font = { bold: true, color: { argb: 'FF334155' } };
+    row.getCell(3).fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFFEF3C7' } }; // Amber-100
+  });
+
+  worksheet.autoFilter = { from: 'A1', to: 'E1' };
+  worksheet.views = [{ state: 'frozen', xSplit: 0, ySplit: 1 }];
+};
+
+// Column presence matrix followed by the schema events and suggested renames, all on one sheet
+const addSchemaSheet = (workbook: ExcelJS.Workbook, report: SchemaReport | undefined) => {
+  if (!report || report.events.length === 0) return;
+
+  const worksheet = workbook.addWorksheet('Schema Drift');
+  worksheet.columns = [
+    { header: 'Column', key: 'column', width: 32 },
+    ...report.files.map((file, i) => ({ header: file, key: `file${i}`, width: 18 })),
+  ];
+  styleHeaderRow(worksheet);
+
+  report.columns.forEach(column => {
+    const row = worksheet.addRow([column.name, ...column.presence.map(present => (present ? 'Yes' : 'No'))]);
+    row.getCell(1).font = { bold: true, color: { argb: 'FF334155' } };
+    column.presence.forEach((present, i) => {
+      if (present) return;
+      const cell = row.getCell(i + 2);
+      cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFFFE4E6' } }; // Rose-100
+      cell.font = { bold: true, color: { argb: 'FF9F1239' } };
+    });
+  });
+
+  const addSection = (title: string, headers: string[], rows: (string | number)[][]) => {
+    worksheet.addRow([]);
+    worksheet.addRow([title]).font = { bold: true, size: 12, color: { argb: 'FF1E293B' } };
+    const header = worksheet.addRow(headers);
+    header.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+    header.eachCell(cell => {
+      cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF1E293B' } }; // Slate-800
+    });
+    rows.forEach(values => worksheet.addRow(values));
+  };
+
+  addSection('Schema Events', ['Column', 'Event', 'File', 'Previous File'], report.events.map(e => [
+    e.column, e.type === 'added' ? 'Appeared' : 'Disappeared', e.file, e.previousFile,
+  ]));
+  if (report.renames.length > 0) {
+    addSection('Suggested Renames', ['From', 'To', 'File', 'Name Similarity', 'Value Match'], report.renames.map(r => [
+      r.from, r.to, r.file, `${Math.round(r.nameSimilarity * 100)}%`, r.valueMatch === null ? 'n/a' : `${Math.round(r.valueMatch * 100)}%`,
+    ]));
+  }
+
+  worksheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+    row.height = 22;
+    row.alignment = { vertical: 'middle', horizontal: 'left', indent: 1 };
+  });
+  worksheet.views = [{ state: 'frozen', xSplit: 1, ySplit: 1 }];
+};
+
+// Fields ranked by how often they changed, with the number of loans and the last file each changed in
+const addFieldSummarySheet = (workbook: ExcelJS.Workbook, records: ChangeRecord[]) => {
+  if (records.length === 0) return;
+
+  const fields = new Map<string, { changes: number; loans: Set<string>; lastFile: string }>();
+  records.forEach(record => {
+    const entry = fields.get(record.field) ?? { changes: 0, loans: new Set<string>(), lastFile: '' };
+    entry.changes++;
+    entry.loans.add(record.loanId);
+    entry.lastFile = record.toFile;
+    fields.set(record.field, entry);
+  });
+
+  const worksheet = workbook.addWorksheet('Summary');
+  worksheet.columns = [
+    { header: 'Rank', key: 'rank', width: 8 },
+    { header: 'Field', key: 'field', width: 32 },
+    { header: 'Times Changed', key: 'changes', width: 16 },
+    { header: 'Loans Affected', key: 'loans', width: 16 },
+    { header: 'Share of Changes', key: 'share', width: 18 },
+    { header: 'Last Changed In', key: 'lastFile', width: 40 },
+  ];
+  styleHeaderRow(worksheet);
+
+  Array.from(fields.entries())
+    .sort((a, b) => b[1].changes - a[1].changes || a[0].localeCompare(b[0]))
+    .forEach(([field, entry], i) => {
+      const row = worksheet.addRow({
+        rank: i + 1,
+        field,
+        changes: entry.changes,
+        loans: entry.loans.size,
+        share: entry.changes / records.length,
+        lastFile: entry.lastFile,
+      });
+      row.height = 22;
+      row.alignment = { vertical: 'middle', horizontal: 'left', indent: 1 };
+      row.getCell(2).font = { bold: true, color: { argb: 'FF334155' } };
+      row.getCell(5).numFmt = '0.0%';
+    });
+
+  worksheet.autoFilter = { from: 'A1', to: 'F1' };
+  worksheet.views = [{ state: 'frozen', xSplit: 0, ySplit: 1 }];
+};
+
+// Export provenance: when it ran, which column identified loans and the snapshots it read
+// `comparedAgainst` names the baseline for timeline reports, or the two sides for a reconciliation
+const addMetadataSheet = (workbook: ExcelJS.Workbook, metadata: ReportMetadata | undefined, comparedAgainst: string) => {
+  if (!metadata) return;
+
+  const worksheet = workbook.addWorksheet('Metadata');
+  worksheet.columns = [
+    { key: 'label', width: 40 },
+    { key: 'value', width: 16 },
+    { key: 'extra', width: 14 },
+  ];
+
+  const labelFont = { bold: true, color: { argb: 'FF334155' } };
+  [
+    ['Exported At', new Date().toISOString()],
+    ['ID Column', metadata.idKey],
+    ['Compared Against', comparedAgainst],
+    ['Source Files', metadata.files.length],
+    ['Total Rows', metadata.files.reduce((count, f) => count + f.rows, 0)],
+  ].forEach(([label, value]) => {
+    const row = worksheet.addRow({ label, value });
+    row.getCell(1).font = labelFont;
+  });
+
+  worksheet.addRow([]);
+  const header = worksheet.addRow({ label: 'Source File', value: 'As-Of Date', extra: 'Rows' });
+  header.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+  header.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF1E293B' } }; // Slate-800
+  metadata.files.forEach(file => {
+    worksheet.addRow({ label: file.name, value: file.asOfDate ?? '', extra: file.rows });
+  });
+
+  worksheet.eachRow(row => {
+    row.height = 22;
+    row.alignment = { vertical: 'middle', horizontal: 'left', indent: 1 };
+  });
+};
+
+export const normalizedHeader = (column: string) => `${column} (normalized)`;
+
+const downloadWorkbook = async (workbook: ExcelJS.Workbook, fileName: string) => {
+  const buffer = await workbook.xlsx.writeBuffer();
+  const blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+  const url = window.URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.click();
+  window.URL.revokeObjectURL(url);
+};
+
+// Writes one loan's timeline as a highlighted sheet in the standard report layout
+const addAuditSheet = (
+  workbook: ExcelJS.Workbook,
+  sheetName: string,
+  results: AuditResult[],
+  columnKeys: string[],
+  baseline = DEFAULT_BASELINE,
+) => {
+  const worksheet = workbook.addWorksheet(sheetName);
+  const baselineLabel = baseline.mode === 'previous' ? 'Previous' : 'Baseline';
+
+  // Columns whose values were reinterpreted for comparison get a normalized companion column right after them,
+  // unless the column itself is filtered out of the report
+  const normalizedKeys = new Set<string>();
+  results.forEach(item => Object.keys(item.normalized ?? {}).forEach(k => {
+    if (columnKeys.includes(k)) normalizedKeys.add(k);
+  }));
+  const sheetKeys = [
+    ...columnKeys.slice(0, 3),
+    CHANGE_COUNT_COLUMN,
+    ...columnKeys.slice(3),
+  ].flatMap(col => (normalizedKeys.has(col) ? [col, normalizedHeader(col)] : [col]));
+
+  // Set up worksheet columns with appropriate widths
+  worksheet.columns = sheetKeys.map(col => ({ 
+    header: col, 
+    key: col, 
+    width: col === 'Found_In_File' ? 40 : col === 'As_Of_Date' || col === CHANGE_COUNT_COLUMN ? 14 : 25 
+  }));
+
+  styleHeaderRow(worksheet);
 
   // Add rows and apply highlighting
   results.forEach((item) => {
-    const rowData = item.row;
+    const rowData: Record<string, string | number> = { ...item.row };
+    normalizedKeys.forEach(col => {
+      rowData[normalizedHeader(col)] = item.normalized?.[col] ?? '';
+    });
+    rowData[CHANGE_COUNT_COLUMN] = item.absent ? 'Absent' : item.changes.size;
     const row = worksheet.addRow(rowData);
+
+    // Snapshots the loan is missing from are shown as greyed placeholder rows, marked in the change count column
+    // since every data column may be filled by the row's own values
+    if (item.absent) {
+      row.getCell(sheetKeys.indexOf(CHANGE_COUNT_COLUMN) + 1).note = `Absent in ${item.row.Found_In_File}`;
+      row.eachCell({ includeEmpty: true }, cell => {
+        cell.font = { italic: true, color: { argb: 'FF94A3B8' } };
+        cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFF1F5F9' } }; // Slate-100
+      });
+      return;
+    }
+
+    normalizedKeys.forEach(col => {
+      row.getCell(sheetKeys.indexOf(normalizedHeader(col)) + 1).font = { italic: true, color: { argb: 'FF64748B' } };
+    });
+
+    const prevRow = item.previous;
     
-    // Highlight cells that changed based on the 'changes' set
-    item.changes.forEach((colKey: string) => {
-      // Find the position in our priority-ordered column set
-      const colIndex = columnKeys.indexOf(colKey) + 1;
-      if (colIndex > 0) {
+    // Highlight cells that changed based on the 'changes' set, colored by review status or else rule severity
+    item.changes.forEach(colKey => {
+      const review = cellReview(item, colKey);
+      const style = review ? REVIEW_FILLS[review.status] : SEVERITY_FILLS[item.severities?.[colKey] ?? DEFAULT_SEVERITY];
+      if (sheetKeys.includes(colKey)) {
+        const previousValue = String(prevRow?.[colKey] ?? '');
+        const notes = [
+          ...(prevRow ? [`${baselineLabel}: ${previousValue === '' ? '(blank)' : previousValue}\nFrom: ${prevRow.Found_In_File}`] : []),
+          ...(review ? [describeReview(review)] : []),
+        ];
+        if (notes.length > 0) row.getCell(sheetKeys.indexOf(colKey) + 1).note = notes.join('\n');
+      }
+      // Find the position in our priority-ordered column set, plus its normalized companion if present
+      const colIndexes = [sheetKeys.indexOf(colKey) + 1, sheetKeys.indexOf(normalizedHeader(colKey)) + 1];
+      colIndexes.filter(colIndex => colIndex > 0).forEach(colIndex => {
         const cell = row.getCell(colIndex);
         cell.fill = {
           type: 'pattern',
           pattern: 'solid',
-          fgColor: { argb: 'FFFFFF00' } // Bright Yellow
+          fgColor: { argb: style.fill }
         };
         cell.font = {
           bold: true,
-          color: { argb: 'FF000000' }
+          color: { argb: style.font }
         };
         cell.border = {
-          top: {style:'thin', color: {argb:'FFB45309'}},
-          left: {style:'thin', color: {argb:'FFB45309'}},
-          bottom: {style:'thin', color: {argb:'FFB45309'}},
-          right: {style:'thin', color: {argb:'FFB45309'}}
+          top: {style:'thin', color: {argb: style.border}},
+          left: {style:'thin', color: {argb: style.border}},
+          bottom: {style:'thin', color: {argb: style.border}},
+          right: {style:'thin', color: {argb: style.border}}
         };
-      }
+      });
     });
 
-    // Consistent styling for first two columns (File and Loan ID)
-    const fileCell = row.getCell(1);
-    fileCell.font = { italic: true, color: { argb: 'FF64748B' }, size: 10 };
-    fileCell.fill = {
-      type: 'pattern',
-      pattern: 'solid',
-      fgColor: { argb: 'FFF8FAFC' } // Slate-50 background
-    };
+    // Consistent styling for first three columns (File, As-of date and Loan ID)
+    [row.getCell(1), row.getCell(2)].forEach(metaCell => {
+      metaCell.font = { italic: true, color: { argb: 'FF64748B' }, size: 10 };
+      metaCell.fill = {
+        type: 'pattern',
+        pattern: 'solid',
+        fgColor: { argb: 'FFF8FAFC' } // Slate-50 background
+      };
+    });
 
-    const idCell = row.getCell(2);
+    const idCell = row.getCell(3);
     idCell.font = { bold: true, color: { argb: 'FF334155' } };
     idCell.fill = {
       type: 'pattern',
       pattern: 'solid',
       fgColor: { argb: 'FFF8FAFC' } // Slate-50 background
     };
+
+    const countCell = row.getCell(4);
+    countCell.font = item.changes.size > 0 ? { bold: true, color: { argb: 'FF000000' } } : { color: { argb: 'FFCBD5E1' } };
+
+    // A whole-version sign-off also colours the file cell
+    const versionReview = item.reviews?.[VERSION_REVIEW];
+    if (versionReview) {
+      const fileCell = row.getCell(1);
+      fileCell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: REVIEW_FILLS[versionReview.status].fill } };
+      fileCell.font = { italic: true, bold: true, color: { argb: REVIEW_FILLS[versionReview.status].font }, size: 10 };
+      fileCell.note = describeReview(versionReview);
+    }
   });
 
   // Global alignment and row heights
@@ -80,17 +459,330 @@ export const exportToExcel = async (results: any[], loanId: string, columnKeys:
     }
   });
 
-  // Freeze top row and first two columns for easy auditing
+  // Freeze top row plus the File, As-of date, Loan ID and change count columns for easy auditing
   worksheet.views = [
-    { state: 'frozen', xSplit: 2, ySplit: 1, topLeftCell: 'C2', activePane: 'bottomRight' }
+    { state: 'frozen', xSplit: 4, ySplit: 1, topLeftCell: 'E2', activePane: 'bottomRight' }
   ];
 
-  const buffer = await workbook.xlsx.writeBuffer();
-  const blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
-  const url = window.URL.createObjectURL(blob);
-  const anchor = document.createElement('a');
-  anchor.href = url;
-  anchor.download = `Audit_Full_Report_Loan_${loanId}.xlsx`;
-  anchor.click();
-  window.URL.revokeObjectURL(url);
+  return worksheet;
+};
+
+// One row per sign-off, with whole-version reviews listed against "(whole version)"
+const addReviewLogSheet = (workbook: ExcelJS.Workbook, reviews: ReviewEntry[]) => {
+  if (reviews.length === 0) return;
+
+  const showSubRecords = reviews.some(r => r.subRecord);
+  const worksheet = workbook.addWorksheet('Review Log');
+  worksheet.columns = [
+    { header: 'Loan', key: 'loanId', width: 20 },
+    { header: 'File', key: 'file', width: 40 },
+    ...(showSubRecords ? [{ header: 'Sub_Record', key: 'subRecord', width: 20 }] : []),
+    { header: 'Field', key: 'field', width: 25 },
+    { header: 'Status', key: 'status', width: 18 },
+    { header: 'Reviewer', key: 'reviewer', width: 20 },
+    { header: 'Comment', key: 'comment', width: 60 },
+    { header: 'Reviewed_At', key: 'reviewedAt', width: 22 },
+  ];
+  styleHeaderRow(worksheet);
+
+  reviews.forEach(review => {
+    const row = worksheet.addRow({
+      ...review,
+      field: review.field === VERSION_REVIEW ? '(whole version)' : review.field,
+      status: REVIEW_STATUS_LABELS[review.status],
+    });
+    row.height = 22;
+    row.alignment = { vertical: 'middle', horizontal: 'left', indent: 1 };
+    const statusCell = row.getCell('status');
+    statusCell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: REVIEW_FILLS[review.status].fill } };
+    statusCell.font = { bold: true, color: { argb: REVIEW_FILLS[review.status].font } };
+  });
+  worksheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: worksheet.columns.length } };
+  worksheet.views = [{ state: 'frozen', ySplit: 1 }];
+};
+
+export const auditReportFileName = (loanId: string) => `Audit_Full_Report_Loan_${loanId}.xlsx`;
+
+// The single-loan report workbook; the browser downloads it and the CLI writes it to disk
+export const buildAuditWorkbook = (results: AuditResult[], columnKeys: string[], extras: ReportExtras = {}): ExcelJS.Workbook | null => {
+  if (results.length === 0 || columnKeys.length === 0) return null;
+
+  const workbook = new ExcelJS.Workbook();
+  const changeLog = extras.changeLog ?? buildChangeLog(results, columnKeys[2]); // Export columns put the loan ID third
+  addAuditSheet(workbook, 'Audit Report', results, columnKeys, extras.baseline);
+  addFieldSummarySheet(workbook, changeLog);
+  addChangeLogSheet(workbook, changeLog);
+  addConflictsSheet(workbook, extras.conflicts ?? [], extras.conflictResolution);
+  addExceptionsSheet(workbook, extras.exceptions ?? results.flatMap(item => item.hits ?? []));
+  addReviewLogSheet(workbook, listReviews(results));
+  addLifecycleSheets(workbook, extras.lifecycle ?? []);
+  addSchemaSheet(workbook, extras.schema);
+  addMetadataSheet(workbook, extras.metadata, describeBaseline(extras.baseline ?? DEFAULT_BASELINE));
+
+  return workbook;
+};
+
+export const exportToExcel = async (results: AuditResult[], loanId: string, columnKeys: string[], extras: ReportExtras = {}) => {
+  const workbook = buildAuditWorkbook(results, columnKeys, extras);
+  if (!workbook) return;
+
+  await downloadWorkbook(workbook, auditReportFileName(loanId));
+};
+
+export const exportPortfolioToExcel = async (summaries: LoanSummary[], extras: ReportExtras = {}) => {
+  if (summaries.length === 0) return;
+
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet('Portfolio Summary');
+
+  worksheet.columns = [
+    { header: 'Loan', key: 'loanId', width: 25 },
+    { header: 'Versions', key: 'versions', width: 12 },
+    { header: 'Changes', key: 'changeCount', width: 12 },
+    { header: 'Exceptions', key: 'exceptions', width: 12 },
+    { header: 'Changed Fields', key: 'changedFields', width: 80 },
+  ];
+  styleHeaderRow(worksheet);
+
+  // Most-changed loans first, matching the default on-screen sort
+  [...summaries]
+    .sort((a, b) => b.changeCount - a.changeCount)
+    .forEach(summary => {
+      const row = worksheet.addRow({
+        loanId: summary.loanId,
+        versions: summary.versions,
+        changeCount: summary.changeCount,
+        exceptions: summary.exceptions.length,
+        changedFields: summary.changedFields.join(', '),
+      });
+      row.height = 22;
+      row.alignment = { vertical: 'middle', horizontal: 'left', indent: 1 };
+      row.getCell(1).font = { bold: true, color: { argb: 'FF334155' } };
+
+      if (summary.changeCount > 0) {
+        const changeCell = row.getCell(3);
+        changeCell.fill = {
+          type: 'pattern',
+          pattern: 'solid',
+          fgColor: { argb: 'FFFFFF00' } // Bright Yellow
+        };
+        changeCell.font = { bold: true, color: { argb: 'FF000000' } };
+      }
+    });
+
+  worksheet.autoFilter = { from: 'A1', to: 'E1' };
+  worksheet.views = [{ state: 'frozen', xSplit: 1, ySplit: 1 }];
+
+  addFieldSummarySheet(workbook, extras.changeLog ?? []);
+  addChangeLogSheet(workbook, extras.changeLog ?? []);
+  addConflictsSheet(workbook, extras.conflicts ?? [], extras.conflictResolution);
+  addExceptionsSheet(workbook, extras.exceptions ?? summaries.flatMap(s => s.exceptions));
+  addLifecycleSheets(workbook, extras.lifecycle ?? []);
+  addSchemaSheet(workbook, extras.schema);
+  addMetadataSheet(workbook, extras.metadata, describeBaseline(extras.baseline ?? DEFAULT_BASELINE));
+
+  await downloadWorkbook(workbook, `Audit_Portfolio_Summary.xlsx`);
+};
+
+export const exportLifecycleToExcel = async (events: LifecycleEvent[]) => {
+  if (events.length === 0) return;
+
+  const workbook = new ExcelJS.Workbook();
+  addLifecycleSheets(workbook, events);
+
+  await downloadWorkbook(workbook, `Audit_Loan_Lifecycle.xlsx`);
+};
+
+// Excel sheet names are capped at 31 characters and may not contain []:*?/\
+const uniqueSheetName = (base: string, used: Set<string>) => {
+  const clean = base.replace(/[\[\]:*?/\\]/g, '-').slice(0, 31);
+  let name = clean;
+  for (let n = 2; used.has(name.toLowerCase()); n++) {
+    const suffix = ` (${n})`;
+    name = clean.slice(0, 31 - suffix.length) + suffix;
+  }
+  used.add(name.toLowerCase());
+  return name;
+};
+
+// Loan sheets are limited to the active column groups, as in the single-loan report
+export const buildBatchWorkbook = (
+  entries: BatchEntry[],
+  idKey: string,
+  extras: ReportExtras = {},
+  columnFilters: ColumnFilterSettings = EMPTY_COLUMN_FILTERS,
+): ExcelJS.Workbook | null => {
+  if (entries.length === 0) return null;
+
+  const workbook = new ExcelJS.Workbook();
+  const summary = workbook.addWorksheet('Batch Summary');
+  summary.columns = [
+    { header: 'Loan', key: 'loanId', width: 25 },
+    { header: 'Status', key: 'status', width: 14 },
+    { header: 'Versions Found', key: 'versions', width: 16 },
+    { header: 'Fields Changed', key: 'fieldCount', width: 16 },
+    { header: 'Exceptions', key: 'exceptions', width: 12 },
+    { header: 'Changed Fields', key: 'changedFields', width: 80 },
+  ];
+  styleHeaderRow(summary);
+
+  const usedNames = new Set(['batch summary']);
+  entries.forEach(entry => {
+    const versions = entry.results.filter(res => !res.absent);
+    const changedFields = new Set<string>();
+    versions.forEach(res => res.changes.forEach(c => changedFields.add(c)));
+
+    const row = summary.addRow({
+      loanId: entry.loanId,
+      status: versions.length > 0 ? 'Found' : 'Not Found',
+      versions: versions.length,
+      fieldCount: changedFields.size,
+      exceptions: versions.reduce((count, res) => count + (res.hits?.length ?? 0), 0),
+      changedFields: Array.from(changedFields).sort().join(', '),
+    });
+    row.height = 22;
+    row.alignment = { vertical: 'middle', horizontal: 'left', indent: 1 };
+
+    if (versions.length === 0) {
+      row.getCell(2).fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFFFE4E6' } }; // Rose-100
+      row.getCell(2).font = { bold: true, color: { argb: 'FF9F1239' } };
+      return;
+    }
+
+    // Each found loan gets its own report sheet, linked from the summary
+    const sheetName = uniqueSheetName(`Loan ${entry.loanId}`, usedNames);
+    const columns = filterColumnsToGroups(buildExportColumns(entry.results, idKey), columnFilters);
+    addAuditSheet(workbook, sheetName, entry.results, columns, extras.baseline);
+    row.getCell(1).value = { text: entry.loanId, hyperlink: `#'${sheetName.replace(/'/g, "''")}'!A1` };
+    row.getCell(1).font = { bold: true, underline: true, color: { argb: 'FF4F46E5' } }; // Indigo-600
+    if (changedFields.size > 0) {
+      row.getCell(4).fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFFFFF00' } }; // Bright Yellow
+      row.getCell(4).font = { bold: true, color: { argb: 'FF000000' } };
+    }
+  });
+
+  summary.autoFilter = { from: 'A1', to: 'F1' };
+  summary.views = [{ state: 'frozen', xSplit: 1, ySplit: 1 }];
+
+  const changeLog = extras.changeLog ?? entries.flatMap(e => buildChangeLog(e.results, idKey));
+  addFieldSummarySheet(workbook, changeLog);
+  addChangeLogSheet(workbook, changeLog);
+  addConflictsSheet(workbook, extras.conflicts ?? [], extras.conflictResolution);
+  addExceptionsSheet(workbook, extras.exceptions ?? entries.flatMap(e => e.results.flatMap(res => res.hits ?? [])));
+  addReviewLogSheet(workbook, entries.flatMap(e => listReviews(e.results)));
+  addLifecycleSheets(workbook, extras.lifecycle ?? []);
+  addSchemaSheet(workbook, extras.schema);
+  addMetadataSheet(workbook, extras.metadata, describeBaseline(extras.baseline ?? DEFAULT_BASELINE));
+
+  return workbook;
+};
+
+export const exportBatchToExcel = async (
+  entries: BatchEntry[],
+  idKey: string,
+  extras: ReportExtras = {},
+  columnFilters: ColumnFilterSettings = EMPTY_COLUMN_FILTERS,
+) => {
+  const workbook = buildBatchWorkbook(entries, idKey, extras, columnFilters);
+  if (!workbook) return;
+
+  await downloadWorkbook(workbook, `Audit_Batch_Report_${entries.length}_Loans.xlsx`);
+};
+
+// Loans found on one side only, with every column that side carries
+const addOneSidedSheet = (workbook: ExcelJS.Workbook, name: string, rows: LoanRow[], idKey: string) => {
+  if (rows.length === 0) return;
+
+  const worksheet = workbook.addWorksheet(name);
+  const keys = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(k => keys.add(k)));
+  const columns = [idKey, 'Found_In_File', ...Array.from(keys).filter(k => k !== idKey && k !== 'Found_In_File').sort()];
+  worksheet.columns = columns.map(col => ({ header: col, key: col, width: col === 'Found_In_File' ? 40 : 25 }));
+  styleHeaderRow(worksheet);
+  rows.forEach(row => {
+    const added = worksheet.addRow(row);
+    added.height = 22;
+    added.alignment = { vertical: 'middle', horizontal: 'left', indent: 1 };
+    added.getCell(1).font = { bold: true, color: { argb: 'FF334155' } };
+  });
+  worksheet.views = [{ state: 'frozen', xSplit: 1, ySplit: 1 }];
+};
+
+export const exportReconciliationToExcel = async (report: ReconcileReport, idKey: string, extras: ReportExtras = {}) => {
+  if (report.entries.length === 0) return;
+
+  const workbook = new ExcelJS.Workbook();
+  const summary = workbook.addWorksheet('Reconciliation Summary');
+  summary.columns = [
+    { key: 'label', width: 40 },
+    { key: 'value', width: 60 },
+  ];
+  const counts = countByStatus(report);
+  const labelFont = { bold: true, color: { argb: 'FF334155' } };
+  [
+    ['Source A', report.filesA.join(', ')],
+    ['Source B', report.filesB.join(', ')],
+    ['Compared Columns', report.columns.length],
+    ...(Object.keys(counts) as (keyof typeof counts)[]).map(status => [RECONCILE_STATUS_LABELS[status], counts[status]]),
+  ].forEach(([label, value]) => {
+    const row = summary.addRow({ label, value });
+    row.height = 22;
+    row.alignment = { vertical: 'middle', horizontal: 'left', indent: 1 };
+    row.getCell(1).font = labelFont;
+  });
+
+  // Each mismatched loan is a Source A row followed by its Source B row, with the disagreeing cells highlighted on both
+  const mismatched = report.entries.filter(e => e.status === 'mismatched');
+  if (mismatched.length > 0) {
+    const ranked = mismatchedColumns(report);
+    const columns = ['Source', 'Found_In_File', idKey, 'Mismatch_Count', ...ranked, ...report.columns.filter(c => !ranked.includes(c))];
+    const worksheet = workbook.addWorksheet('Mismatches');
+    worksheet.columns = columns.map(col => ({
+      header: col,
+      key: col,
+      width: col === 'Found_In_File' ? 40 : col === 'Source' || col === 'Mismatch_Count' ? 14 : 25,
+    }));
+    styleHeaderRow(worksheet);
+
+    const style = SEVERITY_FILLS[DEFAULT_SEVERITY];
+    mismatched.forEach(entry => {
+      (['A', 'B'] as const).forEach(source => {
+        const sourceRow = source === 'A' ? entry.rowA! : entry.rowB!;
+        const otherRow = source === 'A' ? entry.rowB! : entry.rowA!;
+        const row = worksheet.addRow({ ...sourceRow, Source: `Source ${source}`, Mismatch_Count: entry.mismatches.length });
+        row.height = 22;
+        row.alignment = { vertical: 'middle', horizontal: 'left', indent: 1 };
+        row.getCell(3).font = { bold: true, color: { argb: 'FF334155' } };
+        entry.mismatches.forEach(col => {
+          const cell = row.getCell(columns.indexOf(col) + 1);
+          const otherValue = String(otherRow[col] ?? '');
+          cell.note = `Source ${source === 'A' ? 'B' : 'A'}: ${otherValue === '' ? '(blank)' : otherValue}`;
+          cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: style.fill } };
+          cell.font = { bold: true, color: { argb: style.font } };
+          cell.border = {
+            top: { style: 'thin', color: { argb: style.border } },
+            left: { style: 'thin', color: { argb: style.border } },
+            bottom: { style: 'thin', color: { argb: style.border } },
+            right: { style: 'thin', color: { argb: style.border } },
+          };
+        });
+        // A thicker rule under each Source B row separates one loan's pair from the next
+        if (source === 'B') {
+          row.eachCell({ includeEmpty: true }, cell => {
+            cell.border = { ...cell.border, bottom: { style: 'medium', color: { argb: 'FF94A3B8' } } };
+          });
+        }
+      });
+    });
+    worksheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: columns.length } };
+    worksheet.views = [{ state: 'frozen', xSplit: 4, ySplit: 1 }];
+  }
+
+  addOneSidedSheet(workbook, 'Only in Source A', report.entries.filter(e => e.status === 'only_a').map(e => e.rowA!), idKey);
+  addOneSidedSheet(workbook, 'Only in Source B', report.entries.filter(e => e.status === 'only_b').map(e => e.rowB!), idKey);
+  addConflictsSheet(workbook, extras.conflicts ?? [], extras.conflictResolution);
+  addSchemaSheet(workbook, extras.schema);
+  addMetadataSheet(workbook, extras.metadata, 'Source A vs Source B');
+
+  await downloadWorkbook(workbook, `Audit_Reconciliation_Report.xlsx`);
 };
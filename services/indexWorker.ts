@@ -0,0 +1,132 @@
+import { FileData, IntraFileConflict } from '../types.ts';
+import {
+  auditLoan, buildLoanReport, buildPortfolioChangeLog, buildPortfolioSummary, buildReportMetadata, buildSharedExtras, buildTimeline, createAuditEngine,
+  indexFiles, reconcileSources, AuditEngine, EngineQuery, EngineResult, FileStats, IndexedFiles, IndexOverview, WorkerRequest, WorkerResponse,
+} from './auditEngine.ts';
+import { normalizeId, resolveBaseline, DEFAULT_BASELINE } from './auditService.ts';
+import { fileHeaders, fileIdColumn, EMPTY_MAPPING } from './mappingService.ts';
+import { EMPTY_COMPARISON } from './normalizeService.ts';
+import { countDuplicateLoans, findIntraFileConflicts, DEFAULT_DUPLICATES } from './duplicateService.ts';
+import { buildLifecycle } from './lifecycleService.ts';
+import { buildBatch, parseLoanList } from './batchService.ts';
+import { buildSchemaReport } from './schemaService.ts';
+import { buildLoanIdList, findMatchingLoans, suggestLoanIds } from './searchService.ts';
+import { fileIssues } from './diagnosticsService.ts';
+import { withIgnoredColumns, EMPTY_COLUMN_FILTERS } from './columnFilterService.ts';
+import { EMPTY_REVIEWS } from './reviewService.ts';
+
+// Keeps every row, the loan index and the audit engine off the UI thread. The app posts each file's rows once,
+// then only settings and queries; answers are the summaries and per-loan results it puts on screen
+const datasets = new Map<string, any[]>();
+let files: FileData[] = [];
+let indexed: IndexedFiles = indexFiles([], EMPTY_MAPPING, DEFAULT_DUPLICATES, EMPTY_COMPARISON);
+let settings: Extract<WorkerRequest, { type: 'configure' }> = {
+  type: 'configure', rules: [], baseline: DEFAULT_BASELINE, columnFilters: EMPTY_COLUMN_FILTERS, reviews: EMPTY_REVIEWS,
+};
+let engine: AuditEngine;
+// Built on first use: the sorted IDs for the life of the index, the conflicts for the life of the engine
+let loanIds: string[] | null = null;
+let conflicts: IntraFileConflict[] | null = null;
+
+const rebuildEngine = () => {
+  const profiles = withIgnoredColumns(indexed.profiles, settings.columnFilters.ignoredColumns);
+  const baseline = resolveBaseline(settings.baseline, files.map(f => f.name));
+  engine = createAuditEngine(indexed.index, profiles, settings.rules, baseline, settings.columnFilters, settings.reviews);
+  conflicts = null;
+};
+rebuildEngine();
+
+const engineConflicts = () => {
+  conflicts ??= findIntraFileConflicts(engine.files, engine.idKey, engine.duplicates, engine.profiles);
+  return conflicts;
+};
+
+const buildOverview = (dataIds: string[], request: Extract<WorkerRequest, { type: 'index' }>): IndexOverview => {
+  const { mapped, index, profiles } = indexed;
+  const columns = new Set<string>();
+  mapped.files.forEach(f => fileHeaders(f).forEach(h => columns.add(h)));
+  // Blank IDs are looked up in each file's own ID column, so issues follow the raw files rather than the mapped ones
+  const fileStats: Record<string, FileStats> = {};
+  files.forEach((file, i) => {
+    fileStats[dataIds[i]] = {
+      duplicates: countDuplicateLoans(mapped.files[i], mapped.idKey),
+      issues: fileIssues(file, fileIdColumn(file, request.columnMapping)),
+    };
+  });
+  return {
+    metadata: buildReportMetadata(index),
+    subKey: index.subKey,
+    columns: Array.from(columns).sort(),
+    profiles,
+    schema: buildSchemaReport(mapped.files, mapped.idKey),
+    fileStats,
+  };
+};
+
+const answer = (query: EngineQuery): EngineResult => {
+  const { idKey } = engine;
+  switch (query.kind) {
+    case 'loan': {
+      const results = auditLoan(engine, query.loanId);
+      const target = normalizeId(query.loanId);
+      return {
+        results,
+        timeline: buildTimeline(engine, results),
+        conflicts: results.length > 0 ? engineConflicts().filter(c => normalizeId(c.loanId) === target) : [],
+      };
+    }
+    case 'search':
+      return idKey ? findMatchingLoans(engine.loans, idKey, query.query, query.options) : [];
+    case 'suggest':
+      if (!idKey) return [];
+      loanIds ??= buildLoanIdList(engine.loans, idKey);
+      return suggestLoanIds(loanIds, query.prefix);
+    case 'portfolio':
+      return buildPortfolioSummary(engine);
+    case 'lifecycle':
+      return idKey && engine.files.length >= 2 ? buildLifecycle(engine.files, idKey) : [];
+    case 'conflicts':
+      return engineConflicts();
+    case 'batch':
+      return idKey ? buildBatch(engine, query.loanIds) : [];
+    case 'loanList':
+      return parseLoanList(query.text, query.firstColumnOnly, id => engine.loans.has(normalizeId(id)));
+    case 'reconcile':
+      return reconcileSources(engine);
+    case 'sharedExtras':
+      return buildSharedExtras(engine);
+    case 'loanReport':
+      return buildLoanReport(engine, query.loanId);
+    case 'portfolioChangeLog':
+      return buildPortfolioChangeLog(engine);
+  }
+};
+
+const reply = (response: WorkerResponse) => self.postMessage(response);
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'index') {
+    Object.entries(request.datasets).forEach(([id, data]) => datasets.set(id, data));
+    const dataIds = request.files.map(f => f.dataId);
+    // Rows of files that were removed or re-read are never asked for again
+    const live = new Set(dataIds);
+    Array.from(datasets.keys()).forEach(id => { if (!live.has(id)) datasets.delete(id); });
+    files = request.files.map(({ dataId, ...file }) => ({ ...file, data: datasets.get(dataId) ?? [] }));
+    indexed = indexFiles(files, request.columnMapping, request.duplicates, request.comparison);
+    loanIds = null;
+    rebuildEngine();
+    reply({ type: 'indexed', seq: request.seq, overview: buildOverview(dataIds, request) });
+    return;
+  }
+  if (request.type === 'configure') {
+    settings = request;
+    rebuildEngine();
+    return;
+  }
+  try {
+    reply({ type: 'answer', id: request.id, result: answer(request.query) });
+  } catch (err) {
+    reply({ type: 'answer', id: request.id, error: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,76 @@
+import { AuditResult, FileData, LifecycleEvent, LifecycleEventType, LoanRow } from '../types.ts';
+import { normalizeId } from './auditService.ts';
+
+export const LIFECYCLE_LABELS: Record<LifecycleEventType, string> = {
+  added: 'New',
+  dropped: 'Dropped',
+  reappeared: 'Reappeared',
+};
+
+// Normalized loan ID -> display ID for every loan present in the snapshot
+const snapshotIds = (file: FileData, idKey: string): Map<string, string> => {
+  const ids = new Map<string, string>();
+  file.data.forEach((row: LoanRow) => {
+    const id = normalizeId(row[idKey]);
+    if (id && !ids.has(id)) ids.set(id, String(row[idKey]).trim());
+  });
+  return ids;
+};
+
+// Walks consecutive snapshots and reports loans that were boarded, dropped or came back after a gap
+export const buildLifecycle = (files: FileData[], idKey: string): LifecycleEvent[] => {
+  const events: LifecycleEvent[] = [];
+  const lastSeen = new Map<string, string>();
+  let previous: { file: FileData; ids: Map<string, string> } | null = null;
+
+  files.forEach(file => {
+    const ids = snapshotIds(file, idKey);
+    if (previous) {
+      const prev = previous;
+      ids.forEach((loanId, id) => {
+        if (prev.ids.has(id)) return;
+        const seenIn = lastSeen.get(id);
+        events.push(seenIn
+          ? { loanId, type: 'reappeared', file: file.name, previousFile: prev.file.name, lastSeenFile: seenIn }
+          : { loanId, type: 'added', file: file.name, previousFile: prev.file.name });
+      });
+      prev.ids.forEach((loanId, id) => {
+        if (!ids.has(id)) {
+          events.push({ loanId, type: 'dropped', file: file.name, previousFile: prev.file.name });
+        }
+      });
+    }
+    ids.forEach((_, id) => lastSeen.set(id, file.name));
+    previous = { file, ids };
+  });
+
+  return events;
+};
+
+// Inserts "absent" placeholders for every snapshot after the loan's first appearance that does not carry it
+export const withAbsences = (results: AuditResult[], files: FileData[], idKey: string): AuditResult[] => {
+  if (results.length === 0) return results;
+
+  const byFile = new Map<string, AuditResult[]>();
+  results.forEach(res => {
+    const fileName = String(res.row.Found_In_File);
+    byFile.set(fileName, [...(byFile.get(fileName) ?? []), res]);
+  });
+
+  const loanId = results[0].row[idKey];
+  const timeline: AuditResult[] = [];
+  files.forEach(file => {
+    const present = byFile.get(file.name);
+    if (present) {
+      timeline.push(...present);
+    } else if (timeline.length > 0) {
+      timeline.push({
+        row: { Found_In_File: file.name, As_Of_Date: file.asOfDate ?? '', [idKey]: loanId },
+        changes: new Set(),
+        normalized: {},
+        absent: true,
+      });
+    }
+  });
+  return timeline;
+};
@@ -0,0 +1,105 @@
+import { ColumnMapping, FileData, HeaderAlias, MappingProfile } from '../types.ts';
+import { COMPOSITE_KEY_COLUMN, META_COLUMNS } from './auditService.ts';
+import { withoutBadRows } from './diagnosticsService.ts';
+
+const PROFILES_STORAGE_KEY = 'loan-auditor.mapping-profiles';
+
+export const EMPTY_MAPPING: ColumnMapping = { keyColumns: [], fileIdColumns: {}, aliases: [] };
+
+const ID_COLUMN_PATTERNS = ['loan #', 'loan#', 'loan number', 'loan nbr', 'loan no', 'loan id', 'loanid', 'loan_number', 'loan_id'];
+
+export const COMPOSITE_KEY_SEPARATOR = ' | ';
+
+export const fileHeaders = (file: FileData): string[] => {
+  return Object.keys(file.data[0] ?? {}).filter(k => !META_COLUMNS.includes(k));
+};
+
+export const detectIdColumn = (headers: string[]): string | null => {
+  return headers.find(h => ID_COLUMN_PATTERNS.some(p => h.toLowerCase().includes(p))) || null;
+};
+
+const aliasLookup = (aliases: HeaderAlias[]): Map<string, string> => {
+  const lookup = new Map<string, string>();
+  aliases.forEach(({ canonical, aliases: names }) => {
+    if (!canonical.trim()) return;
+    names.forEach(name => {
+      if (name.trim()) lookup.set(name.trim().toLowerCase(), canonical.trim());
+    });
+  });
+  return lookup;
+};
+
+const resolveHeader = (header: string, lookup: Map<string, string>) => {
+  return lookup.get(header.trim().toLowerCase()) ?? header;
+};
+
+// Source ID column for a file: the explicit per-file choice, else the usual "Loan #" style guess
+export const fileIdColumn = (file: FileData, mapping: ColumnMapping): string | null => {
+  const chosen = mapping.fileIdColumns[file.name];
+  const headers = fileHeaders(file);
+  if (chosen && headers.includes(chosen)) return chosen;
+  return detectIdColumn(headers);
+};
+
+const primaryKeyColumn = (files: FileData[], mapping: ColumnMapping, lookup: Map<string, string>) => {
+  if (mapping.keyColumns[0]) return mapping.keyColumns[0];
+  for (const file of files) {
+    const idColumn = fileIdColumn(file, mapping);
+    if (idColumn) return resolveHeader(idColumn, lookup);
+  }
+  return null;
+};
+
+// Renames each file's headers onto canonical names and builds the composite key, returning the key column to audit on.
+// Files flagged to exclude bad rows lose them first
+export const applyColumnMapping = (files: FileData[], mapping: ColumnMapping): { files: FileData[]; idKey: string | null } => {
+  const lookup = aliasLookup(mapping.aliases);
+  const primaryKey = primaryKeyColumn(files, mapping, lookup);
+  if (!primaryKey) return { files: files.map(file => withoutBadRows(file, null)), idKey: null };
+
+  const keyParts = [primaryKey, ...mapping.keyColumns.slice(1).filter(Boolean)];
+  const isComposite = keyParts.length > 1;
+
+  const mapped = files.map(raw => {
+    const idColumn = fileIdColumn(raw, mapping);
+    const file = withoutBadRows(raw, idColumn);
+    const renames = new Map<string, string>();
+    fileHeaders(file).forEach(header => {
+      const target = header === idColumn ? primaryKey : resolveHeader(header, lookup);
+      if (target !== header) renames.set(header, target);
+    });
+    if (renames.size === 0 && !isComposite) return file;
+
+    return {
+      ...file,
+      data: file.data.map(row => {
+        const newRow: any = {};
+        Object.keys(row).forEach(k => {
+          const target = renames.get(k) ?? k;
+          // When two source headers collapse onto one canonical name, keep the first populated value
+          if (newRow[target] === undefined || newRow[target] === '') newRow[target] = row[k];
+        });
+        if (isComposite) {
+          newRow[COMPOSITE_KEY_COLUMN] = keyParts.map(part => String(newRow[part] ?? '').trim()).join(COMPOSITE_KEY_SEPARATOR);
+        }
+        return newRow;
+      }),
+    };
+  });
+
+  return { files: mapped, idKey: isComposite ? COMPOSITE_KEY_COLUMN : primaryKey };
+};
+
+export const loadMappingProfiles = (): MappingProfile[] => {
+  try {
+    const stored = localStorage.getItem(PROFILES_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (err) {
+    console.error("Error reading mapping profiles:", err);
+    return [];
+  }
+};
+
+export const saveMappingProfiles = (profiles: MappingProfile[]) => {
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+};
@@ -0,0 +1,137 @@
+import { ColumnProfile, ColumnType, ComparisonSettings, LoanRow, PercentScale } from '../types.ts';
+import { parseDate } from './snapshotService.ts';
+import { META_COLUMNS } from './auditService.ts';
+
+export const COLUMN_TYPES: ColumnType[] = ['currency', 'percent', 'date', 'number', 'text'];
+
+export const EMPTY_COMPARISON: ComparisonSettings = { typeOverrides: {}, tolerances: {} };
+
+const SAMPLE_SIZE = 500;
+const TYPE_THRESHOLD = 0.8; // Share of sampled values that must agree before a column gets a non-text type
+const FLOAT_EPSILON = 1e-9;
+
+const PERCENT_HEADER = /rate|pct|percent|%|ltv|dti|margin|yield|coupon/i;
+const CURRENCY_HEADER = /balance|amount|amt|payment|pmt|principal|escrow|fee|price|value|upb|\$/i;
+
+const NUMBER_PATTERN = /^[-+]?\(?\$?\s*[-+]?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?\)?$/;
+
+const parseNumber = (text: string): number | null => {
+  if (!NUMBER_PATTERN.test(text) || !/\d/.test(text)) return null;
+  const negative = /^\(.*\)$/.test(text) || text.startsWith('-');
+  const n = Number(text.replace(/[()$,\s+-]/g, ''));
+  if (!Number.isFinite(n)) return null;
+  return negative ? -n : n;
+};
+
+const classifyValue = (text: string): ColumnType => {
+  if (/%\s*$/.test(text) && parseNumber(text.replace(/%\s*$/, '').trim()) !== null) return 'percent';
+  if (text.includes('$') && parseNumber(text) !== null) return 'currency';
+  if (parseNumber(text) !== null) return 'number';
+  if (parseDate(text)) return 'date';
+  return 'text';
+};
+
+// Picks a column type from sampled values, letting the header name break the number/percent/currency tie
+export const inferColumnType = (header: string, values: string[]): ColumnType => {
+  if (values.length === 0) return 'text';
+  const counts: Record<ColumnType, number> = { currency: 0, percent: 0, date: 0, number: 0, text: 0 };
+  values.forEach(v => counts[classifyValue(v)]++);
+
+  const numeric = counts.currency + counts.percent + counts.number;
+  if (numeric / values.length >= TYPE_THRESHOLD) {
+    if (counts.percent > 0 || (counts.currency === 0 && PERCENT_HEADER.test(header))) return 'percent';
+    if (counts.currency > 0 || CURRENCY_HEADER.test(header)) return 'currency';
+    return 'number';
+  }
+  if (counts.date / values.length >= TYPE_THRESHOLD) return 'date';
+  return 'text';
+};
+
+// Bare percent values are whole percentages (6.5 → 6.5%) unless most sampled ones are at most 1, as in a column
+// of fractions (0.065 → 6.5%); one scale per column keeps a 0.75% rate or a 1.05 LTV on the same footing as its neighbours
+export const inferPercentScale = (values: string[]): PercentScale => {
+  let whole = 0;
+  let fraction = 0;
+  values.forEach(v => {
+    if (/%\s*$/.test(v)) return;
+    const n = parseNumber(v);
+    if (n === null || n === 0) return;
+    if (Math.abs(n) > 1) whole++;
+    else fraction++;
+  });
+  return fraction > whole ? 'fraction' : 'whole';
+};
+
+export const buildColumnProfiles = (rows: LoanRow[], settings: ComparisonSettings): Record<string, ColumnProfile> => {
+  const samples = new Map<string, string[]>();
+  for (const row of rows) {
+    Object.keys(row).forEach(key => {
+      if (META_COLUMNS.includes(key)) return;
+      const text = String(row[key] ?? '').trim();
+      let sample = samples.get(key);
+      if (!sample) {
+        sample = [];
+        samples.set(key, sample);
+      }
+      if (text && sample.length < SAMPLE_SIZE) sample.push(text);
+    });
+  }
+
+  const profiles: Record<string, ColumnProfile> = {};
+  samples.forEach((values, key) => {
+    const inferredType = inferColumnType(key, values);
+    profiles[key] = {
+      inferredType,
+      type: settings.typeOverrides[key] ?? inferredType,
+      percentScale: inferPercentScale(values),
+      tolerance: settings.tolerances[key] ?? 0,
+    };
+  });
+  return profiles;
+};
+
+// Normalized values are numbers for numeric types (percent as a fraction), ISO strings for dates and trimmed text otherwise
+export const normalizeValue = (value: unknown, type: ColumnType, percentScale: PercentScale = 'whole'): number | string | null => {
+  const text = String(value ?? '').trim().replace(/\s+/g, ' ');
+  if (!text) return null;
+
+  switch (type) {
+    case 'percent': {
+      const hasSign = /%\s*$/.test(text);
+      const n = parseNumber(text.replace(/%\s*$/, '').trim());
+      if (n === null) return text;
+      return hasSign || percentScale === 'whole' ? n / 100 : n;
+    }
+    case 'currency':
+    case 'number':
+      return parseNumber(text) ?? text;
+    case 'date':
+      return parseDate(text) ?? text;
+    default:
+      return text;
+  }
+};
+
+const trimNumber = (n: number, digits: number) => String(Number(n.toFixed(digits)));
+
+export const formatNormalized = (value: number | string | null, type: ColumnType): string => {
+  if (value === null) return '';
+  if (typeof value === 'string') return value;
+  if (type === 'currency') return value.toFixed(2);
+  if (type === 'percent') return `${trimNumber(value * 100, 6)}%`;
+  return trimNumber(value, 10);
+};
+
+export const valuesDiffer = (a: unknown, b: unknown, profile?: ColumnProfile): boolean => {
+  if (!profile) return String(a) !== String(b);
+  if (profile.ignored) return false;
+
+  const na = normalizeValue(a, profile.type, profile.percentScale);
+  const nb = normalizeValue(b, profile.type, profile.percentScale);
+  if (typeof na === 'number' && typeof nb === 'number') {
+    // Percent tolerances are entered in percentage points, everything else in the column's own units
+    const scale = profile.type === 'percent' ? 100 : 1;
+    return Math.abs(na - nb) * scale > profile.tolerance + FLOAT_EPSILON;
+  }
+  return na !== nb;
+};
@@ -0,0 +1,90 @@
+import { ColumnProfile, FileData, LoanRow, ReconcileEntry, ReconcileReport, ReconcileSource, ReconcileStatus } from '../types.ts';
+import { META_COLUMNS, normalizeId } from './auditService.ts';
+import { fileHeaders } from './mappingService.ts';
+import { valuesDiffer } from './normalizeService.ts';
+
+export const RECONCILE_SOURCES: ReconcileSource[] = ['A', 'B'];
+
+export const RECONCILE_STATUS_LABELS: Record<ReconcileStatus, string> = {
+  mismatched: 'Mismatched',
+  only_a: 'Only in Source A',
+  only_b: 'Only in Source B',
+  matched: 'Matched',
+};
+
+// Mismatches first, then the one-sided loans, then clean matches
+const STATUS_ORDER: ReconcileStatus[] = ['mismatched', 'only_a', 'only_b', 'matched'];
+
+export const hasBothSources = (files: FileData[]) => RECONCILE_SOURCES.every(source => files.some(f => f.source === source));
+
+// One row per loan for a source; its files are read in timeline order so the latest snapshot wins
+const rowsForSource = (files: FileData[], idKey: string): Map<string, LoanRow> => {
+  const rows = new Map<string, LoanRow>();
+  files.forEach(file => {
+    const seen = new Set<string>();
+    file.data.forEach((row: LoanRow) => {
+      const id = normalizeId(row[idKey]);
+      if (!id || seen.has(id)) return;
+      seen.add(id);
+      rows.set(id, row);
+    });
+  });
+  return rows;
+};
+
+const sharedColumns = (filesA: FileData[], filesB: FileData[], idKey: string) => {
+  const headersB = new Set(filesB.flatMap(fileHeaders));
+  const columns = new Set(filesA.flatMap(fileHeaders).filter(h => headersB.has(h)));
+  return Array.from(columns).filter(c => c !== idKey && !META_COLUMNS.includes(c)).sort();
+};
+
+// Joins the Source A and Source B files on the loan ID and compares every column both sides carry.
+// Files should already be column-mapped and de-duplicated; untagged files are ignored
+export const buildReconciliation = (
+  files: FileData[],
+  idKey: string,
+  profiles: Record<string, ColumnProfile> = {},
+): ReconcileReport => {
+  const filesA = files.filter(f => f.source === 'A');
+  const filesB = files.filter(f => f.source === 'B');
+  const columns = sharedColumns(filesA, filesB, idKey);
+  const rowsA = rowsForSource(filesA, idKey);
+  const rowsB = rowsForSource(filesB, idKey);
+
+  const entries: ReconcileEntry[] = [];
+  rowsA.forEach((rowA, id) => {
+    const rowB = rowsB.get(id);
+    const loanId = String(rowA[idKey]).trim();
+    if (!rowB) {
+      entries.push({ loanId, status: 'only_a', rowA, mismatches: [] });
+      return;
+    }
+    const mismatches = columns.filter(c => valuesDiffer(rowA[c], rowB[c], profiles[c]));
+    entries.push({ loanId, status: mismatches.length > 0 ? 'mismatched' : 'matched', rowA, rowB, mismatches });
+  });
+  rowsB.forEach((rowB, id) => {
+    if (!rowsA.has(id)) entries.push({ loanId: String(rowB[idKey]).trim(), status: 'only_b', rowB, mismatches: [] });
+  });
+
+  entries.sort((a, b) => {
+    return STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status)
+      || a.loanId.localeCompare(b.loanId, undefined, { numeric: true });
+  });
+
+  return { filesA: filesA.map(f => f.name), filesB: filesB.map(f => f.name), columns, entries };
+};
+
+export const countByStatus = (report: ReconcileReport): Record<ReconcileStatus, number> => {
+  const counts: Record<ReconcileStatus, number> = { mismatched: 0, only_a: 0, only_b: 0, matched: 0 };
+  report.entries.forEach(entry => {
+    counts[entry.status]++;
+  });
+  return counts;
+};
+
+// Mismatched columns ordered by how many loans disagree on them, most frequent first
+export const mismatchedColumns = (report: ReconcileReport): string[] => {
+  const counts = new Map<string, number>();
+  report.entries.forEach(entry => entry.mismatches.forEach(c => counts.set(c, (counts.get(c) ?? 0) + 1)));
+  return Array.from(counts.keys()).sort((a, b) => counts.get(b)! - counts.get(a)! || a.localeCompare(b));
+};
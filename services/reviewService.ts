@@ -0,0 +1,90 @@
+import { AuditResult, LoanRow, ReviewEntry, ReviewLog, ReviewStatus } from '../types.ts';
+import { normalizeId } from './auditService.ts';
+
+const REVIEWER_STORAGE_KEY = 'loan-auditor.reviewer';
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  approved: 'Approved',
+  follow_up: 'Needs Follow-up',
+  error: 'Error',
+};
+
+// Field value for a sign-off that covers every change in a version
+export const VERSION_REVIEW = '';
+
+export const EMPTY_REVIEWS: ReviewLog = {};
+
+export type ReviewTarget = Pick<ReviewEntry, 'loanId' | 'file' | 'subRecord' | 'field'>;
+
+// The version a timeline row belongs to; sub-records are signed off separately per secondary value
+export const reviewTarget = (row: LoanRow, idKey: string, subKey: string, field: string = VERSION_REVIEW): ReviewTarget => ({
+  loanId: String(row[idKey] ?? '').trim(),
+  file: String(row.Found_In_File ?? ''),
+  subRecord: subKey ? String(row[subKey] ?? '').trim() : '',
+  field,
+});
+
+export const reviewKey = (target: ReviewTarget) => {
+  return JSON.stringify([normalizeId(target.loanId), target.file, normalizeId(target.subRecord), target.field]);
+};
+
+// Attaches the logged sign-offs to the versions and changed fields they cover
+export const applyReviews = (results: AuditResult[], log: ReviewLog, idKey: string, subKey: string): AuditResult[] => {
+  if (Object.keys(log).length === 0) return results;
+  return results.map(res => {
+    if (res.absent) return res;
+    const reviews: Record<string, ReviewEntry> = {};
+    [VERSION_REVIEW, ...res.changes].forEach(field => {
+      const entry = log[reviewKey(reviewTarget(res.row, idKey, subKey, field))];
+      if (entry) reviews[field] = entry;
+    });
+    return Object.keys(reviews).length > 0 ? { ...res, reviews } : res;
+  });
+};
+
+// A changed cell's own sign-off, else the one covering its whole version
+export const cellReview = (res: AuditResult, field: string): ReviewEntry | undefined => {
+  return res.reviews?.[field] ?? res.reviews?.[VERSION_REVIEW];
+};
+
+export const reviewProgress = (results: AuditResult[]) => {
+  let total = 0;
+  let reviewed = 0;
+  results.forEach(res => {
+    if (res.absent) return;
+    res.changes.forEach(field => {
+      total++;
+      if (cellReview(res, field)) reviewed++;
+    });
+  });
+  return { reviewed, total };
+};
+
+export const withReview = (log: ReviewLog, entry: ReviewEntry): ReviewLog => ({ ...log, [reviewKey(entry)]: entry });
+
+export const withoutReview = (log: ReviewLog, target: ReviewTarget): ReviewLog => {
+  const next = { ...log };
+  delete next[reviewKey(target)];
+  return next;
+};
+
+// Every sign-off attached to a timeline, in timeline order with the version-wide one first
+export const listReviews = (results: AuditResult[]): ReviewEntry[] => {
+  return results.flatMap(res => {
+    const reviews = res.reviews ?? {};
+    return Object.keys(reviews).sort().map(field => reviews[field]);
+  });
+};
+
+export const loadReviewerName = (): string => {
+  try {
+    return localStorage.getItem(REVIEWER_STORAGE_KEY) ?? '';
+  } catch (err) {
+    console.error("Error reading reviewer name:", err);
+    return '';
+  }
+};
+
+export const saveReviewerName = (name: string) => {
+  localStorage.setItem(REVIEWER_STORAGE_KEY, name);
+};
@@ -0,0 +1,121 @@
+import { AuditResult, ColumnProfile, FieldRule, RuleCondition, RuleHit, Severity } from '../types.ts';
+import { normalizeValue } from './normalizeService.ts';
+
+const RULES_STORAGE_KEY = 'loan-auditor.field-rules';
+
+// Highest first; changes that match no rule fall back to DEFAULT_SEVERITY
+export const SEVERITY_ORDER: Severity[] = ['critical', 'major', 'minor', 'noise'];
+export const DEFAULT_SEVERITY: Severity = 'minor';
+
+export const CONDITION_LABELS: Record<RuleCondition, string> = {
+  any_change: 'Any change',
+  increase_pct: 'Increase above X%',
+  decrease_pct: 'Decrease above X%',
+  cleared: 'Changed from non-empty to empty',
+  not_in_list: 'Value not in allowed list',
+};
+
+export const higherSeverity = (a: Severity, b: Severity): Severity => {
+  return SEVERITY_ORDER.indexOf(a) <= SEVERITY_ORDER.indexOf(b) ? a : b;
+};
+
+const toNumber = (value: unknown, profile?: ColumnProfile): number | null => {
+  const normalized = normalizeValue(value, profile && profile.type !== 'text' ? profile.type : 'number', profile?.percentScale);
+  return typeof normalized === 'number' ? normalized : null;
+};
+
+const percentChange = (oldValue: unknown, newValue: unknown, profile?: ColumnProfile): number | null => {
+  const before = toNumber(oldValue, profile);
+  const after = toNumber(newValue, profile);
+  if (before === null || after === null || before === 0) return null;
+  return ((after - before) / Math.abs(before)) * 100;
+};
+
+const describe = (rule: FieldRule) => {
+  switch (rule.condition) {
+    case 'increase_pct':
+      return `Increase above ${rule.threshold ?? 0}%`;
+    case 'decrease_pct':
+      return `Decrease above ${rule.threshold ?? 0}%`;
+    case 'not_in_list':
+      return `Not in allowed list (${(rule.allowedValues ?? []).join(', ')})`;
+    default:
+      return CONDITION_LABELS[rule.condition];
+  }
+};
+
+export const ruleMatches = (rule: FieldRule, oldValue: unknown, newValue: unknown, profile?: ColumnProfile): boolean => {
+  const before = String(oldValue ?? '').trim();
+  const after = String(newValue ?? '').trim();
+
+  switch (rule.condition) {
+    case 'any_change':
+      return true;
+    case 'increase_pct': {
+      const pct = percentChange(oldValue, newValue, profile);
+      return pct !== null && pct > (rule.threshold ?? 0);
+    }
+    case 'decrease_pct': {
+      const pct = percentChange(oldValue, newValue, profile);
+      return pct !== null && -pct > (rule.threshold ?? 0);
+    }
+    case 'cleared':
+      return before !== '' && after === '';
+    case 'not_in_list': {
+      const allowed = (rule.allowedValues ?? []).map(v => v.trim().toLowerCase()).filter(Boolean);
+      return allowed.length > 0 && !allowed.includes(after.toLowerCase());
+    }
+  }
+};
+
+// Grades each changed cell by the most severe matching rule and records every rule hit
+export const applyRules = (
+  results: AuditResult[],
+  rules: FieldRule[],
+  idKey: string,
+  profiles: Record<string, ColumnProfile> = {},
+): AuditResult[] => {
+  return results.map((res, index) => {
+    const prevRow = res.previous ?? (index > 0 ? results[index - 1].row : undefined);
+    if (!prevRow || res.changes.size === 0) return { ...res, severities: {}, hits: [] };
+
+    const severities: Record<string, Severity> = {};
+    const hits: RuleHit[] = [];
+
+    res.changes.forEach(field => {
+      let severity: Severity | null = null;
+      for (const rule of rules) {
+        if (rule.field !== field || !ruleMatches(rule, prevRow[field], res.row[field], profiles[field])) continue;
+        severity = severity ? higherSeverity(severity, rule.severity) : rule.severity;
+        hits.push({
+          ruleId: rule.id,
+          loanId: String(res.row[idKey] ?? '').trim(),
+          field,
+          severity: rule.severity,
+          description: describe(rule),
+          oldValue: String(prevRow[field] ?? ''),
+          newValue: String(res.row[field] ?? ''),
+          fromFile: String(prevRow.Found_In_File),
+          toFile: String(res.row.Found_In_File),
+        });
+      }
+      severities[field] = severity ?? DEFAULT_SEVERITY;
+    });
+
+    return { ...res, severities, hits };
+  });
+};
+
+export const loadRules = (): FieldRule[] => {
+  try {
+    const stored = localStorage.getItem(RULES_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (err) {
+    console.error("Error reading field rules:", err);
+    return [];
+  }
+};
+
+export const saveRules = (rules: FieldRule[]) => {
+  localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
+};
@@ -0,0 +1,108 @@
+import { FileData, HeaderAlias, LoanRow, RenameSuggestion, SchemaEvent, SchemaReport } from '../types.ts';
+import { normalizeId } from './auditService.ts';
+import { fileHeaders } from './mappingService.ts';
+
+const MIN_NAME_SIMILARITY = 0.6;
+const MIN_VALUE_MATCH = 0.8;
+const VALUE_SAMPLE_SIZE = 500;
+
+const compactName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// 1 for names equal once case and punctuation are ignored, falling towards 0 as edits accumulate
+export const nameSimilarity = (a: string, b: string) => {
+  const x = compactName(a);
+  const y = compactName(b);
+  if (!x || !y) return 0;
+  if (x.includes(y) || y.includes(x)) return Math.max(Math.min(x.length, y.length) / Math.max(x.length, y.length), 0.75);
+  return 1 - editDistance(x, y) / Math.max(x.length, y.length);
+};
+
+const rowsById = (file: FileData, idKey: string) => {
+  const rows = new Map<string, LoanRow>();
+  file.data.forEach((row: LoanRow) => {
+    const id = normalizeId(row[idKey]);
+    if (id && !rows.has(id)) rows.set(id, row);
+  });
+  return rows;
+};
+
+// Share of loans present in both files whose value under the old column equals the value under the new one
+const valueMatch = (previous: Map<string, LoanRow>, current: Map<string, LoanRow>, from: string, to: string) => {
+  let compared = 0;
+  let matched = 0;
+  for (const [id, row] of current) {
+    const prevRow = previous.get(id);
+    if (!prevRow) continue;
+    const before = normalizeId(prevRow[from]);
+    const after = normalizeId(row[to]);
+    if (!before && !after) continue;
+    compared++;
+    if (before === after) matched++;
+    if (compared >= VALUE_SAMPLE_SIZE) break;
+  }
+  return compared > 0 ? matched / compared : null;
+};
+
+// Column presence per file, the add/remove events between consecutive files and likely renames among them
+export const buildSchemaReport = (files: FileData[], idKey: string | null): SchemaReport => {
+  const headers = files.map(f => new Set(fileHeaders(f)));
+  const names: string[] = [];
+  headers.forEach(set => set.forEach(name => {
+    if (!names.includes(name)) names.push(name);
+  }));
+
+  const events: SchemaEvent[] = [];
+  const renames: RenameSuggestion[] = [];
+  for (let i = 1; i < files.length; i++) {
+    const file = files[i].name;
+    const previousFile = files[i - 1].name;
+    const added = names.filter(n => headers[i].has(n) && !headers[i - 1].has(n));
+    const removed = names.filter(n => !headers[i].has(n) && headers[i - 1].has(n));
+    added.forEach(column => events.push({ column, type: 'added', file, previousFile }));
+    removed.forEach(column => events.push({ column, type: 'removed', file, previousFile }));
+    if (added.length === 0 || removed.length === 0) continue;
+
+    const previous = idKey ? rowsById(files[i - 1], idKey) : new Map<string, LoanRow>();
+    const current = idKey ? rowsById(files[i], idKey) : new Map<string, LoanRow>();
+    removed.forEach(from => {
+      const candidates = added
+        .map(to => ({ to, similarity: nameSimilarity(from, to), match: valueMatch(previous, current, from, to) }))
+        .filter(c => c.similarity >= MIN_NAME_SIMILARITY || (c.match ?? 0) >= MIN_VALUE_MATCH)
+        .sort((a, b) => (b.similarity + (b.match ?? 0)) - (a.similarity + (a.match ?? 0)));
+      const best = candidates[0];
+      if (best) {
+        renames.push({ from, to: best.to, file, previousFile, nameSimilarity: best.similarity, valueMatch: best.match });
+      }
+    });
+  }
+
+  return {
+    files: files.map(f => f.name),
+    columns: names.sort().map(name => ({ name, presence: headers.map(set => set.has(name)) })),
+    events,
+    renames,
+  };
+};
+
+export const hasSchemaDrift = (report: SchemaReport) => report.events.length > 0;
+
+// Accepting a rename maps the old header onto the new one so both files share a column
+export const withRenameAlias = (aliases: HeaderAlias[], rename: RenameSuggestion): HeaderAlias[] => {
+  const existing = aliases.find(a => a.canonical.trim() === rename.to);
+  if (existing) {
+    return aliases.map(a => (a === existing ? { ...a, aliases: [...a.aliases.filter(Boolean), rename.from] } : a));
+  }
+  return [...aliases, { canonical: rename.to, aliases: [rename.from] }];
+};
@@ -0,0 +1,98 @@
+import { LoanRow, SearchMatch, SearchMatchMode, SearchOptions } from '../types.ts';
+import { META_COLUMNS, normalizeId } from './auditService.ts';
+
+export const LOAN_NUMBER_FIELD = '';
+export const ALL_FIELDS = '*';
+
+export const DEFAULT_SEARCH: SearchOptions = { field: LOAN_NUMBER_FIELD, mode: 'exact' };
+
+export const MATCH_MODE_LABELS: Record<SearchMatchMode, string> = {
+  exact: 'Exact',
+  prefix: 'Starts with',
+  contains: 'Contains',
+  wildcard: 'Wildcard (* ?)',
+};
+
+export const MAX_SEARCH_MATCHES = 200;
+
+// Exact loan-number searches go straight to the index; everything else scans for matching loans
+export const isDirectLookup = (options: SearchOptions) => {
+  return options.field === LOAN_NUMBER_FIELD && options.mode === 'exact';
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+
+// Case-insensitive predicate for one search term, applied to trimmed cell text
+export const buildMatcher = (query: string, mode: SearchMatchMode): ((value: unknown) => boolean) => {
+  const term = normalizeId(query);
+  switch (mode) {
+    case 'prefix':
+      return value => normalizeId(value).startsWith(term);
+    case 'contains':
+      return value => normalizeId(value).includes(term);
+    case 'wildcard': {
+      const pattern = new RegExp(`^${escapeRegExp(term).replace(/\*/g, '.*').replace(/\?/g, '.')}$`);
+      return value => pattern.test(normalizeId(value));
+    }
+    default:
+      return value => normalizeId(value) === term;
+  }
+};
+
+// Loans with at least one version whose searched column(s) match, capped at MAX_SEARCH_MATCHES
+export const findMatchingLoans = (
+  index: Map<string, LoanRow[]>,
+  idKey: string,
+  query: string,
+  options: SearchOptions,
+): SearchMatch[] => {
+  if (!query.trim()) return [];
+  const matches = buildMatcher(query, options.mode);
+  const fieldsOf = (row: LoanRow) => {
+    if (options.field === ALL_FIELDS) return Object.keys(row).filter(k => !META_COLUMNS.includes(k));
+    return [options.field === LOAN_NUMBER_FIELD ? idKey : options.field];
+  };
+
+  const results: SearchMatch[] = [];
+  for (const group of index.values()) {
+    let hit: SearchMatch | null = null;
+    for (const row of group) {
+      const field = fieldsOf(row).find(f => matches(row[f]));
+      if (field) {
+        hit = { loanId: String(row[idKey]).trim(), field, value: String(row[field] ?? ''), versions: group.length };
+        break;
+      }
+    }
+    if (hit) {
+      results.push(hit);
+      // One extra result lets callers tell "exactly the cap" from "more than the cap"
+      if (results.length > MAX_SEARCH_MATCHES) break;
+    }
+  }
+  return results;
+};
+
+// Display IDs sorted by their normalized form, so typeahead can binary search a prefix
+export const buildLoanIdList = (index: Map<string, LoanRow[]>, idKey: string): string[] => {
+  return Array.from(index.entries())
+    .sort((a, b) => (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0))
+    .map(([, group]) => String(group[0][idKey]).trim());
+};
+
+export const suggestLoanIds = (sortedIds: string[], prefix: string, limit = 8): string[] => {
+  const term = normalizeId(prefix);
+  if (!term) return [];
+  let low = 0;
+  let high = sortedIds.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (normalizeId(sortedIds[mid]) < term) low = mid + 1;
+    else high = mid;
+  }
+  const suggestions: string[] = [];
+  for (let i = low; i < sortedIds.length && suggestions.length < limit; i++) {
+    if (!normalizeId(sortedIds[i]).startsWith(term)) break;
+    suggestions.push(sortedIds[i]);
+  }
+  return suggestions;
+};
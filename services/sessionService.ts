@@ -0,0 +1,107 @@
+import { AuditSession, SessionSummary } from '../types.ts';
+
+const DB_NAME = 'loan-auditor';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+const SUMMARY_STORE = 'sessionSummaries'; // Lightweight copies so listing never loads file data
+
+const PROJECT_FORMAT = 'loan-auditor-session';
+const PROJECT_VERSION = 1;
+
+const openDatabase = () => {
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(SUMMARY_STORE)) db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Runs one transaction across both stores and resolves with the callback's request result once it commits
+const withStores = async <T>(
+  mode: IDBTransactionMode,
+  run: (sessions: IDBObjectStore, summaries: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const tx = db.transaction([SESSION_STORE, SUMMARY_STORE], mode);
+    const request = run(tx.objectStore(SESSION_STORE), tx.objectStore(SUMMARY_STORE));
+    tx.oncomplete = () => {
+      db.close();
+      resolve(request ? request.result : undefined);
+    };
+    tx.onerror = () => {
+      db.close();
+      reject(tx.error);
+    };
+    tx.onabort = () => {
+      db.close();
+      reject(tx.error);
+    };
+  });
+};
+
+export const summarizeSession = (session: AuditSession): SessionSummary => ({
+  id: session.id,
+  name: session.name,
+  savedAt: session.savedAt,
+  fileCount: session.files.length,
+  recordCount: session.files.reduce((count, f) => count + f.data.length, 0),
+});
+
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const summaries = await withStores<SessionSummary[]>('readonly', (_, store) => store.getAll());
+  return (summaries ?? []).sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
+
+export const saveSession = async (session: AuditSession) => {
+  await withStores('readwrite', (sessions, summaries) => {
+    sessions.put(session);
+    summaries.put(summarizeSession(session));
+  });
+};
+
+export const loadSession = async (id: string): Promise<AuditSession | undefined> => {
+  return withStores<AuditSession>('readonly', (sessions) => sessions.get(id));
+};
+
+export const deleteSession = async (id: string) => {
+  await withStores('readwrite', (sessions, summaries) => {
+    sessions.delete(id);
+    summaries.delete(id);
+  });
+};
+
+// Project files wrap the session in a small envelope so imports can be recognised and versioned
+export const exportSessionFile = (session: AuditSession) => {
+  const payload = JSON.stringify({ format: PROJECT_FORMAT, version: PROJECT_VERSION, session });
+  const blob = new Blob([payload], { type: 'application/json' });
+  const url = window.URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = `${session.name.replace(/[^\w.-]+/g, '_') || 'audit'}.loanaudit.json`;
+  anchor.click();
+  window.URL.revokeObjectURL(url);
+};
+
+// Validates a project file's envelope; shared by the browser import and the command-line auditor
+export const parseSessionFile = (text: string, fileName: string): AuditSession => {
+  const parsed = JSON.parse(text);
+  if (parsed?.format !== PROJECT_FORMAT || !parsed.session || !Array.isArray(parsed.session.files)) {
+    throw new Error(`${fileName} is not a Loan Auditor project file`);
+  }
+  if (parsed.version > PROJECT_VERSION) {
+    throw new Error(`${fileName} was saved by a newer version of Loan Auditor`);
+  }
+  return parsed.session;
+};
+
+export const importSessionFile = async (file: File): Promise<AuditSession> => {
+  const session = parseSessionFile(await file.text(), file.name);
+  // Imported sessions get a fresh ID so they never overwrite a local session of the same origin
+  return { ...session, id: crypto.randomUUID() };
+};
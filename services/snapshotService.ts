@@ -0,0 +1,125 @@
+import { AsOfSource, FileData } from '../types.ts';
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1) return null; // Rejects 2026-02-30 and friends
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+const expandYear = (year: string) => {
+  const n = Number(year);
+  return year.length === 2 ? 2000 + n : n;
+};
+
+// Parses the date layouts that show up in loan tapes into YYYY-MM-DD
+export const parseDate = (value: unknown): string | null => {
+  const text = String(value ?? '').trim();
+  if (!text) return null;
+
+  let match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T\s].*)?$/);
+  if (match) return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})(?:\s.*)?$/);
+  if (match) return toIsoDate(expandYear(match[3]), Number(match[1]), Number(match[2]));
+
+  match = text.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (match) return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  return null;
+};
+
+const FILE_NAME_DATE_PATTERNS: { pattern: RegExp; toDate: (m: RegExpMatchArray) => string | null }[] = [
+  { pattern: /(?<!\d)(\d{4})[-_.](\d{2})[-_.](\d{2})(?!\d)/, toDate: m => toIsoDate(Number(m[1]), Number(m[2]), Number(m[3])) },
+  { pattern: /(?<!\d)(\d{2})[-_.](\d{2})[-_.](\d{4})(?!\d)/, toDate: m => toIsoDate(Number(m[3]), Number(m[1]), Number(m[2])) },
+  { pattern: /(?<!\d)(20\d{2})(\d{2})(\d{2})(?!\d)/, toDate: m => toIsoDate(Number(m[1]), Number(m[2]), Number(m[3])) },
+];
+
+export const inferDateFromFileName = (fileName: string): string | null => {
+  for (const { pattern, toDate } of FILE_NAME_DATE_PATTERNS) {
+    const match = fileName.match(pattern);
+    const date = match ? toDate(match) : null;
+    if (date) return date;
+  }
+  return null;
+};
+
+const DATE_COLUMN_PATTERN = /as[\s_-]*of|snapshot|report(ing)?[\s_-]*date|period[\s_-]*end|effective[\s_-]*date|run[\s_-]*date/i;
+
+// Uses the most frequent value of an "as of" style column, if the file carries one
+export const inferDateFromColumn = (rows: any[]): string | null => {
+  if (rows.length === 0) return null;
+  const column = Object.keys(rows[0]).find(k => k !== 'Found_In_File' && k !== 'As_Of_Date' && DATE_COLUMN_PATTERN.test(k));
+  if (!column) return null;
+
+  const counts = new Map<string, number>();
+  rows.forEach(row => {
+    const date = parseDate(row[column]);
+    if (date) counts.set(date, (counts.get(date) ?? 0) + 1);
+  });
+
+  let best: string | null = null;
+  counts.forEach((count, date) => {
+    if (best === null || count > counts.get(best)!) best = date;
+  });
+  return best;
+};
+
+// Stamps the as-of date onto the file and each of its rows so the diff and export can carry it
+export const withAsOfDate = (file: FileData, asOfDate: string | null, asOfSource: AsOfSource | null): FileData => ({
+  ...file,
+  asOfDate: asOfDate ?? undefined,
+  asOfSource: asOfSource ?? undefined,
+  data: file.data.map(row => ({ ...row, As_Of_Date: asOfDate ?? '' })),
+});
+
+export const inferAsOfDate = (file: FileData): FileData => {
+  const fromName = inferDateFromFileName(file.name);
+  if (fromName) return withAsOfDate(file, fromName, 'filename');
+
+  const fromColumn = inferDateFromColumn(file.data);
+  if (fromColumn) return withAsOfDate(file, fromColumn, 'column');
+
+  return withAsOfDate(file, null, null);
+};
+
+// Stable sort: dated snapshots ascending, undated ones after them in their current order
+export const sortByAsOfDate = (files: FileData[]): FileData[] => {
+  return files
+    .map((file, index) => ({ file, index }))
+    .sort((a, b) => {
+      const da = a.file.asOfDate;
+      const db = b.file.asOfDate;
+      if (da && db && da !== db) return da < db ? -1 : 1;
+      if (da && !db) return -1;
+      if (!da && db) return 1;
+      return a.index - b.index;
+    })
+    .map(({ file }) => file);
+};
+
+// Slots new snapshots in by date without re-sorting the rest, so a manual order survives later uploads.
+// Each file goes before the first later-dated or undated one; undated files go last
+export const insertByAsOfDate = (files: FileData[], added: FileData[]): FileData[] => {
+  return sortByAsOfDate(added).reduce((list, file) => {
+    const at = file.asOfDate ? list.findIndex(f => !f.asOfDate || f.asOfDate > file.asOfDate!) : -1;
+    return at === -1 ? [...list, file] : [...list.slice(0, at), file, ...list.slice(at)];
+  }, files);
+};
+
+// Indices of dated files that sit before an earlier-dated file after a manual reorder
+export const findOutOfOrder = (files: FileData[]): Set<number> => {
+  const flagged = new Set<number>();
+  let latest: string | null = null;
+  files.forEach((file, index) => {
+    if (!file.asOfDate) return;
+    if (latest && file.asOfDate < latest) {
+      flagged.add(index);
+    } else {
+      latest = file.asOfDate;
+    }
+  });
+  return flagged;
+};
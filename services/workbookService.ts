@@ -0,0 +1,64 @@
+import ExcelJS from 'exceljs';
+import { FileData, LoanRow } from '../types.ts';
+
+export const isWorkbookFile = (fileName: string) => /\.xlsx$/i.test(fileName);
+
+export const sheetEntryName = (fileName: string, sheetName: string) => `${fileName} › ${sheetName}`;
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+// Flattens ExcelJS cell values (formulas, rich text, hyperlinks, dates) to the plain strings Papa would produce
+const cellToString = (value: ExcelJS.CellValue): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return formatDate(value);
+  if (typeof value !== 'object') return String(value);
+  if ('richText' in value) return value.richText.map(part => part.text).join('');
+  if ('hyperlink' in value) return cellToString(value.text);
+  if ('result' in value) return cellToString(value.result as ExcelJS.CellValue);
+  if ('formula' in value || 'sharedFormula' in value) return '';
+  if ('error' in value) return value.error;
+  return String(value);
+};
+
+const sheetToRows = (worksheet: ExcelJS.Worksheet, sourceName: string): LoanRow[] => {
+  let headers: string[] | null = null;
+  const rows: LoanRow[] = [];
+
+  worksheet.eachRow({ includeEmpty: false }, (row) => {
+    const values: string[] = [];
+    for (let col = 1; col <= worksheet.columnCount; col++) {
+      values.push(cellToString(row.getCell(col).value).trim());
+    }
+    if (values.every(v => v === '')) return;
+
+    // The first populated row is treated as the header row
+    if (!headers) {
+      headers = values.map((h, i) => h || `Column ${i + 1}`);
+      return;
+    }
+
+    const newRow: LoanRow = { Found_In_File: sourceName, As_Of_Date: '' };
+    headers.forEach((header, i) => {
+      newRow[header] = values[i] ?? '';
+    });
+    rows.push(newRow);
+  });
+
+  return rows;
+};
+
+// Reads every populated worksheet into its own FileData entry
+export const readWorkbook = async (file: File): Promise<FileData[]> => {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+
+  const sheets: FileData[] = [];
+  workbook.eachSheet((worksheet) => {
+    const name = sheetEntryName(file.name, worksheet.name);
+    const data = sheetToRows(worksheet, name);
+    if (data.length > 0) {
+      sheets.push({ name, sheetName: worksheet.name, data });
+    }
+  });
+  return sheets;
+};
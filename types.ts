@@ -2,14 +2,305 @@
 export interface LoanRow {
   [key: string]: string | number;
   Found_In_File: string;
+  As_Of_Date: string; // YYYY-MM-DD, empty when the snapshot date is unknown
 }
 
 export interface AuditResult {
   row: LoanRow;
   changes: Set<string>; // Keys that changed compared to previous instance
+  previous?: LoanRow; // The instance this row was compared against, if any
+  normalized: Record<string, string>; // Normalized display values for cells whose raw text differs from them
+  absent?: boolean; // Placeholder for a snapshot the loan is missing from
+  severities?: Record<string, Severity>; // Severity of each changed cell once field rules are applied
+  hits?: RuleHit[];
+  reviews?: Record<string, ReviewEntry>; // Reviewer sign-off by changed field, '' for the whole version
 }
 
+export type ReviewStatus = 'approved' | 'follow_up' | 'error';
+
+export interface ReviewEntry {
+  loanId: string;
+  file: string; // Found_In_File of the reviewed version
+  subRecord: string; // Secondary value when sub-records are tracked, else ''
+  field: string; // Changed column, or '' when the whole version was reviewed
+  status: ReviewStatus;
+  reviewer: string;
+  comment: string;
+  reviewedAt: string; // ISO timestamp
+}
+
+// Keyed by reviewKey so sign-offs survive re-running the audit
+export type ReviewLog = Record<string, ReviewEntry>;
+
+export type AsOfSource = 'filename' | 'column' | 'manual';
+
 export interface FileData {
   name: string;
+  sheetName?: string; // Set when the entry came from a worksheet inside an .xlsx workbook
+  asOfDate?: string; // YYYY-MM-DD snapshot date used to order the timeline
+  asOfSource?: AsOfSource;
+  source?: ReconcileSource; // Side of a two-source reconciliation; untagged files are left out of it
+  diagnostics?: ParseDiagnostics; // Set for CSV files; workbook sheets are parsed by ExcelJS
+  excludeBadRows?: boolean; // Drop rows with parse issues or a blank loan ID before auditing
+  uploadId?: string; // Keys the uploaded CSV in this browser tab so it can be re-read with other parse settings
   data: any[];
 }
+
+export type CsvDelimiter = ',' | ';' | '|' | '\t';
+
+export type TextEncoding = 'utf-8' | 'windows-1252';
+
+// Null means detect from the file contents
+export interface ParseSettings {
+  delimiter: CsvDelimiter | null;
+  encoding: TextEncoding | null;
+}
+
+export type ParseIssueType = 'malformed' | 'column_count' | 'blank_id';
+
+export interface ParseIssue {
+  type: ParseIssueType;
+  row: number; // Index into FileData.data
+  message: string;
+}
+
+export interface ParseDiagnostics {
+  delimiter: CsvDelimiter;
+  encoding: TextEncoding;
+  settings: ParseSettings; // What was requested; null entries were detected
+  columnCount: number;
+  issues: ParseIssue[]; // Malformed rows and column-count mismatches; blank IDs depend on the mapping and are found later
+}
+
+export interface PendingWorkbook {
+  fileName: string;
+  sheets: FileData[];
+}
+
+export interface LoanSummary {
+  loanId: string;
+  versions: number;
+  changeCount: number; // Total changed cells across all versions
+  changedFields: string[];
+  files: string[];
+  exceptions: RuleHit[];
+}
+
+export interface HeaderAlias {
+  canonical: string;
+  aliases: string[]; // Alternate source headers, matched case-insensitively
+}
+
+export interface ColumnMapping {
+  keyColumns: string[]; // Canonical key columns; more than one builds a composite key
+  fileIdColumns: Record<string, string>; // File name -> source header holding the primary key
+  aliases: HeaderAlias[];
+}
+
+export interface MappingProfile extends ColumnMapping {
+  name: string;
+}
+
+export type ColumnType = 'currency' | 'percent' | 'date' | 'number' | 'text';
+
+export interface ComparisonSettings {
+  typeOverrides: Record<string, ColumnType>;
+  tolerances: Record<string, number>; // Allowed numeric drift per column; percentage points for percent columns
+}
+
+// What each version is compared against: the version before it, the loan's first version, one reference
+// snapshot, or only the first and last versions side by side
+export type BaselineMode = 'previous' | 'first' | 'reference' | 'first_last';
+
+export interface ComparisonBaseline {
+  mode: BaselineMode;
+  referenceFile: string; // FileData name used in 'reference' mode
+}
+
+// How a percent column writes values without a % sign: 6.5 for 6.5% ('whole') or 0.065 ('fraction')
+export type PercentScale = 'whole' | 'fraction';
+
+export interface ColumnProfile {
+  type: ColumnType;
+  inferredType: ColumnType;
+  percentScale: PercentScale; // Decided once per column from its sampled values
+  tolerance: number;
+  ignored?: boolean; // Noise columns such as run dates never count as changes
+}
+
+export interface ColumnGroup {
+  name: string; // e.g. "Payment", "Escrow", "Borrower"
+  columns: string[];
+}
+
+export interface ColumnFilterSettings {
+  ignoredColumns: string[];
+  groups: ColumnGroup[];
+  activeGroups: string[]; // Group names the timeline and export are limited to; empty shows every column
+}
+
+export interface ColumnFilterProfile extends ColumnFilterSettings {
+  name: string;
+}
+
+export type LifecycleEventType = 'added' | 'dropped' | 'reappeared';
+
+export interface LifecycleEvent {
+  loanId: string;
+  type: LifecycleEventType;
+  file: string; // Snapshot where the loan appeared or first went missing
+  previousFile: string; // Snapshot immediately before `file`
+  lastSeenFile?: string; // For reappearing loans, the last snapshot that still carried them
+}
+
+export type Severity = 'critical' | 'major' | 'minor' | 'noise';
+
+export type RuleCondition = 'any_change' | 'increase_pct' | 'decrease_pct' | 'cleared' | 'not_in_list';
+
+export interface FieldRule {
+  id: string;
+  field: string;
+  condition: RuleCondition;
+  threshold?: number; // Percent change for increase_pct / decrease_pct
+  allowedValues?: string[]; // For not_in_list
+  severity: Severity;
+}
+
+export interface RuleHit {
+  ruleId: string;
+  loanId: string;
+  field: string;
+  severity: Severity;
+  description: string;
+  oldValue: string;
+  newValue: string;
+  fromFile: string;
+  toFile: string;
+}
+
+export interface BatchEntry {
+  loanId: string; // As requested in the pasted or uploaded list
+  results: AuditResult[]; // Empty when the loan was not found in any file
+}
+
+// One row of the long-format change log: a single field that changed between two consecutive versions of a loan
+export interface ChangeRecord {
+  loanId: string;
+  field: string;
+  oldValue: string;
+  newValue: string;
+  fromFile: string;
+  toFile: string;
+  changeIndex: number; // 1-based position of the change within the loan's history
+}
+
+// Provenance written to the Metadata sheet of exported reports
+export interface ReportMetadata {
+  idKey: string;
+  files: { name: string; rows: number; asOfDate?: string }[];
+}
+
+export type DuplicateStrategy = 'keep_first' | 'keep_last' | 'sub_records';
+
+export interface DuplicateSettings {
+  strategy: DuplicateStrategy;
+  secondaryColumn: string; // Distinguishes sub-records of one loan, e.g. an investor code
+}
+
+// Several rows for the same loan inside one file that the chosen strategy could not tell apart
+export interface IntraFileConflict {
+  loanId: string;
+  file: string;
+  rows: LoanRow[];
+  fields: string[]; // Fields whose values differ between the duplicate rows
+}
+
+export interface SchemaColumn {
+  name: string;
+  presence: boolean[]; // One flag per file, in timeline order
+}
+
+// A column appearing in or disappearing from a file compared with the file before it
+export interface SchemaEvent {
+  column: string;
+  type: 'added' | 'removed';
+  file: string;
+  previousFile: string;
+}
+
+export interface RenameSuggestion {
+  from: string; // Column that disappeared
+  to: string; // Column that appeared in the same file
+  file: string;
+  previousFile: string;
+  nameSimilarity: number; // 0 to 1
+  valueMatch: number | null; // Share of shared loans whose old and new values agree; null when no loans overlap
+}
+
+export interface SchemaReport {
+  files: string[];
+  columns: SchemaColumn[];
+  events: SchemaEvent[];
+  renames: RenameSuggestion[];
+}
+
+export type SearchMatchMode = 'exact' | 'prefix' | 'contains' | 'wildcard';
+
+export interface SearchOptions {
+  field: string; // Column to search; '' for the loan number, '*' for every column
+  mode: SearchMatchMode;
+}
+
+export interface SearchMatch {
+  loanId: string;
+  field: string; // First column that matched
+  value: string;
+  versions: number;
+}
+
+export type ReconcileSource = 'A' | 'B';
+
+export type ReconcileStatus = 'mismatched' | 'only_a' | 'only_b' | 'matched';
+
+export interface ReconcileEntry {
+  loanId: string;
+  status: ReconcileStatus;
+  rowA?: LoanRow;
+  rowB?: LoanRow;
+  mismatches: string[]; // Compared columns whose values disagree between the sources
+}
+
+export interface ReconcileReport {
+  filesA: string[];
+  filesB: string[];
+  columns: string[]; // Columns present on both sides, compared for every matched loan
+  entries: ReconcileEntry[];
+}
+
+export type AuditMode = 'single' | 'portfolio' | 'lifecycle' | 'batch' | 'reconcile';
+
+export interface AuditSession {
+  id: string;
+  name: string;
+  savedAt: string; // ISO timestamp
+  files: FileData[];
+  columnMapping: ColumnMapping;
+  comparisonSettings: ComparisonSettings;
+  fieldRules: FieldRule[];
+  auditMode: AuditMode;
+  searchQuery: string;
+  batchText: string;
+  duplicateSettings?: DuplicateSettings; // Absent in sessions saved before duplicate handling existed
+  searchOptions?: SearchOptions;
+  baseline?: ComparisonBaseline;
+  columnFilters?: ColumnFilterSettings;
+  reviews?: ReviewLog;
+}
+
+export interface SessionSummary {
+  id: string;
+  name: string;
+  savedAt: string;
+  fileCount: number;
+  recordCount: number;
+}